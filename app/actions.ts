@@ -1,106 +1,39 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import fs from "fs";
-import path from "path";
+import { getCurrentUser } from "@/app/lib/auth/session";
+import { isValidEntityName } from "@/app/lib/entities/registry";
+import {
+  addSubscription,
+  removeSubscription,
+} from "@/app/lib/subscriptions/repository";
+import { normalizeCategory } from "@/app/lib/subscriptions/categories";
 
-// Define the path for the subscriptions file in the project root
-const subscriptionsFile = path.join(process.cwd(), "subscriptions.json");
-
-// Define the subscriptions type
-interface Subscriptions {
-  leagues: string[];
-  teams: string[];
-  players: string[];
-  tournaments: string[]; // Add tournaments to the interface
-}
-
-function getSubscriptions(): Subscriptions {
-  try {
-    if (!fs.existsSync(subscriptionsFile)) {
-      fs.writeFileSync(
-        subscriptionsFile,
-        JSON.stringify(
-          { leagues: [], teams: [], players: [], tournaments: [] },
-          null,
-          2
-        )
-      );
-    }
-    const data = fs.readFileSync(subscriptionsFile, "utf-8");
-    return (
-      JSON.parse(data) || {
-        leagues: [],
-        teams: [],
-        players: [],
-        tournaments: [],
-      }
-    );
-  } catch (error: unknown) {
-    console.error("Error loading subscriptions:", {
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-      file: subscriptionsFile,
-    });
-    return { leagues: [], teams: [], players: [], tournaments: [] }; // Fallback with tournaments
-  }
-}
-
-function saveSubscriptions(subscriptions: Subscriptions): void {
-  try {
-    fs.writeFileSync(subscriptionsFile, JSON.stringify(subscriptions, null, 2));
-  } catch (error: unknown) {
-    console.error("Error saving subscriptions:", {
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-      file: subscriptionsFile,
-    });
-    throw new Error(
-      `Failed to save subscriptions: ${
-        error instanceof Error ? error.message : String(error)
-      }`
-    );
+// Returns the stored term and category; known names resolve to their
+// canonical entity
+export async function subscribeAction(term: string, category: string) {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error("Sign in to manage subscriptions");
   }
-}
 
-export async function subscribeAction(term: string, category: string) {
   try {
-    const currentSubs = getSubscriptions();
-
-    switch (category.toLowerCase()) {
-      case "league":
-        if (!currentSubs.leagues.includes(term)) {
-          currentSubs.leagues.push(term);
-          saveSubscriptions(currentSubs);
-        }
-        break;
-      case "team":
-        if (!currentSubs.teams.includes(term)) {
-          currentSubs.teams.push(term);
-          saveSubscriptions(currentSubs);
-        }
-        break;
-      case "player":
-        if (!currentSubs.players.includes(term)) {
-          currentSubs.players.push(term);
-          saveSubscriptions(currentSubs);
-        }
-        break;
-      case "tournament": // Handle new Tournament category
-        if (!currentSubs.tournaments.includes(term)) {
-          currentSubs.tournaments.push(term);
-          saveSubscriptions(currentSubs);
-        }
-        break;
-      default:
-        throw new Error("Invalid category");
+    const normalized = normalizeCategory(category);
+    if (!normalized) {
+      throw new Error("Invalid category");
+    }
+    if (!isValidEntityName(term)) {
+      throw new Error("Invalid name");
     }
+    const stored = await addSubscription(user.id, term, normalized);
 
     revalidatePath("/");
+    return stored;
   } catch (error: unknown) {
     console.error("Error subscribing:", {
       message: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
+      userId: user.id,
       term,
       category,
     });
@@ -109,43 +42,24 @@ export async function subscribeAction(term: string, category: string) {
 }
 
 export async function unsubscribeAction(term: string, category: string) {
-  try {
-    const currentSubs = getSubscriptions();
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error("Sign in to manage subscriptions");
+  }
 
-    switch (category.toLowerCase()) {
-      case "league":
-        currentSubs.leagues = currentSubs.leagues.filter(
-          (item: string) => item !== term
-        );
-        saveSubscriptions(currentSubs);
-        break;
-      case "team":
-        currentSubs.teams = currentSubs.teams.filter(
-          (item: string) => item !== term
-        );
-        saveSubscriptions(currentSubs);
-        break;
-      case "player":
-        currentSubs.players = currentSubs.players.filter(
-          (item: string) => item !== term
-        );
-        saveSubscriptions(currentSubs);
-        break;
-      case "tournament": // Handle new Tournament category
-        currentSubs.tournaments = currentSubs.tournaments.filter(
-          (item: string) => item !== term
-        );
-        saveSubscriptions(currentSubs);
-        break;
-      default:
-        throw new Error("Invalid category");
+  try {
+    const normalized = normalizeCategory(category);
+    if (!normalized) {
+      throw new Error("Invalid category");
     }
+    await removeSubscription(user.id, term, normalized);
 
     revalidatePath("/subscriptions");
   } catch (error: unknown) {
     console.error("Error unsubscribing:", {
       message: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
+      userId: user.id,
       term,
       category,
     });
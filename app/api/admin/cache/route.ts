@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/app/lib/admin";
+import { listCacheEntries, purgeCache } from "@/app/lib/news/cache";
+import { normalizeText } from "@/app/lib/news/normalize";
+import { purgePrefetched } from "@/app/lib/news/prefetch";
+
+// List what the /api/news response cache currently holds
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return NextResponse.json({ entries: listCacheEntries() }, { status: 200 });
+}
+
+// Purge cache entries: { kind } drops a whole query kind, { kind, q } the
+// entries for one query of that kind, and an empty body drops everything.
+// The matching prefetched results go too, or they would be seeded back
+export async function DELETE(req: NextRequest) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { q, kind } = body || {};
+
+    if (
+      (q !== undefined && typeof q !== "string") ||
+      (kind !== undefined && typeof kind !== "string")
+    ) {
+      return NextResponse.json(
+        { error: "Invalid purge filter" },
+        { status: 400 }
+      );
+    }
+
+    const filter = { kind, subject: q ? normalizeText(q) : undefined };
+    const removed = purgeCache(filter);
+    const prefetched = await purgePrefetched(filter);
+    return NextResponse.json({ removed, prefetched }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error in DELETE /api/admin/cache:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { error: "Failed to purge cache" },
+      { status: 500 }
+    );
+  }
+}
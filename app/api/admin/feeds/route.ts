@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/app/lib/admin";
+import { getFeedStatus, refreshFeeds } from "@/app/lib/feeds/ingest";
+
+// List the configured feeds and what their last fetch found
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json({ feeds: await getFeedStatus() }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error in GET /api/admin/feeds:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { error: "Failed to load feed status" },
+      { status: 500 }
+    );
+  }
+}
+
+// Fetch every feed now, whether or not it is due
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    const results = await refreshFeeds({ force: true });
+    return NextResponse.json({ results }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error in POST /api/admin/feeds:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { error: "Failed to refresh feeds" },
+      { status: 500 }
+    );
+  }
+}
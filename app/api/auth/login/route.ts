@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { startSession } from "@/app/lib/auth/session";
+import { User, verifyCredentials } from "@/app/lib/auth/users";
+
+interface AuthResponse {
+  user: User | null;
+  error?: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { username, password } = await req.json();
+    const user = await verifyCredentials(username, password);
+
+    if (!user) {
+      return NextResponse.json<AuthResponse>(
+        { user: null, error: "Invalid username or password" },
+        { status: 401 }
+      );
+    }
+
+    await startSession(user.id);
+    return NextResponse.json<AuthResponse>({ user }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error in POST /api/auth/login:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json<AuthResponse>(
+      { user: null, error: "Failed to sign in" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { endSession } from "@/app/lib/auth/session";
+
+export async function POST() {
+  try {
+    await endSession();
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error in POST /api/auth/logout:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { success: false, error: "Failed to sign out" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/app/lib/auth/session";
+import { User } from "@/app/lib/auth/users";
+
+interface MeResponse {
+  user: User | null;
+}
+
+// The signed-in user, or null; never 401 so pages can call it unconditionally
+export async function GET() {
+  const user = await getCurrentUser();
+  return NextResponse.json<MeResponse>({ user }, { status: 200 });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { startSession } from "@/app/lib/auth/session";
+import { AuthError, createUser, User } from "@/app/lib/auth/users";
+import { claimLegacySubscriptions } from "@/app/lib/subscriptions/repository";
+
+interface AuthResponse {
+  user: User | null;
+  error?: string;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { username, password } = await req.json();
+    const { user, first } = await createUser(username, password);
+
+    // The first account inherits the subscriptions from before accounts existed
+    if (first) {
+      await claimLegacySubscriptions(user.id);
+    }
+    await startSession(user.id);
+
+    return NextResponse.json<AuthResponse>({ user }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof AuthError) {
+      return NextResponse.json<AuthResponse>(
+        { user: null, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error in POST /api/auth/register:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json<AuthResponse>(
+      { user: null, error: "Failed to create the account" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_ENTITY_NAME_LENGTH } from "@/app/lib/entities/registry";
+import {
+  MAX_SUGGESTIONS,
+  Suggestion,
+  suggestEntities,
+} from "@/app/lib/entities/suggest";
+
+// Define the type for the suggestions response
+interface SuggestResponse {
+  suggestions: Suggestion[];
+  error?: string;
+}
+
+// GET /api/entities/suggest?q=fener&limit=5
+export async function GET(req: NextRequest) {
+  try {
+    const query = req.nextUrl.searchParams.get("q") || "";
+    const limit = Number(req.nextUrl.searchParams.get("limit"));
+
+    if (query.length > MAX_ENTITY_NAME_LENGTH) {
+      return NextResponse.json<SuggestResponse>(
+        { suggestions: [], error: "Query is too long" },
+        { status: 400 }
+      );
+    }
+
+    const suggestions = await suggestEntities(
+      query,
+      Number.isInteger(limit) && limit > 0
+        ? Math.min(limit, MAX_SUGGESTIONS)
+        : MAX_SUGGESTIONS
+    );
+    return NextResponse.json<SuggestResponse>({ suggestions }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error in GET /api/entities/suggest:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json<SuggestResponse>(
+      { suggestions: [], error: "Failed to load suggestions" },
+      { status: 500 }
+    );
+  }
+}
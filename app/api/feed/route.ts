@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/app/lib/auth/session";
+import { parsePageRequest } from "@/app/lib/news/pages";
+import { buildPersonalFeed, FEED_KEY } from "@/app/lib/news/personalFeed";
+import { parseNewsSource } from "@/app/lib/news/service";
+import { FeedResponse } from "@/app/lib/news/types";
+
+// The signed-in user's news across all their subscriptions, ranked and
+// without duplicates. ?source= works as in /api/news; ?before=, ?after= and
+// ?limit= page through it
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json<FeedResponse>(
+        { news: [], error: "Not signed in" },
+        { status: 401 }
+      );
+    }
+
+    const params = req.nextUrl.searchParams;
+    const source = parseNewsSource(params.get("source") ?? undefined);
+    if (typeof source !== "string") {
+      return NextResponse.json<FeedResponse>(
+        { news: [], error: source.error },
+        { status: 400 }
+      );
+    }
+
+    const page = parsePageRequest(
+      {
+        before: params.get("before") ?? undefined,
+        after: params.get("after") ?? undefined,
+        limit: params.get("limit") ?? undefined,
+      },
+      FEED_KEY
+    );
+    if ("error" in page) {
+      return NextResponse.json<FeedResponse>(
+        { news: [], error: page.error },
+        { status: 400 }
+      );
+    }
+
+    const { queried, ...feed } = await buildPersonalFeed(user.id, source, page);
+
+    // Only an error when nothing could be fetched at all
+    if (queried > 0 && feed.failed.length > 0 && feed.news.length === 0) {
+      return NextResponse.json<FeedResponse>(
+        { ...feed, error: "Failed to fetch news for your subscriptions" },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json<FeedResponse>(feed, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error in GET /api/feed:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json<FeedResponse>(
+      { news: [], error: "Failed to build your feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getArticle, StoredArticle } from "@/app/lib/news/store";
+
+// Define the type for the article response
+interface ArticleResponse {
+  article: StoredArticle | null;
+  error?: string;
+}
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const article = await getArticle(id);
+
+    if (!article) {
+      return NextResponse.json<ArticleResponse>(
+        { article: null, error: "News item not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ArticleResponse>({ article }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error in GET /api/news/[id]:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json<ArticleResponse>(
+      { article: null, error: "Failed to load the news item" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,162 +1,224 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-
-// Define the type for the API response
-// Define the type for the API response
-// Define the type for the API response
-interface NewsResponse {
-  news: { id: string; title: string; date: string; url: string }[];
-  error?: string;
-}
-// Define the type for the xAI API response (compatible with OpenAI’s ChatCompletion)
-interface XaiChatCompletionResponse {
-  choices: Array<{
-    message: {
-      role: string;
-      content: string;
-    };
-  }>;
-  error?: {
-    message: string;
-    type: string;
-    param: string;
-    code: string;
-  };
+import { getCurrentUser } from "@/app/lib/auth/session";
+import { getLlmProvider, LlmProviderError } from "@/app/lib/llm";
+import { clusterStories } from "@/app/lib/news/clusters";
+import {
+  paginate,
+  PageRequest,
+  parsePageRequest,
+  selectStoredNews,
+  STORED_NEWS_KEY,
+  storedNewsKey,
+  toNewsItem,
+} from "@/app/lib/news/pages";
+import {
+  getNews,
+  NewsQuery,
+  NewsResult,
+  NewsServiceError,
+  parseNewsQuery,
+  parseNewsSource,
+} from "@/app/lib/news/service";
+import { listArticles } from "@/app/lib/news/store";
+import {
+  NewsItem,
+  NewsResponse,
+  NewsSource,
+  PageInfo,
+} from "@/app/lib/news/types";
+import { settingsForEntity } from "@/app/lib/subscriptions/repository";
+import { applySettings } from "@/app/lib/subscriptions/settings";
+
+type FollowSettingsResult = Pick<
+  NewsResponse,
+  "filtered" | "priority" | "mutedUntil"
+>;
+
+// News about something the signed-in user follows goes through that follow's
+// mute and keyword settings; everything else is returned as generated
+async function applyFollowSettings<T extends NewsItem>(
+  query: NewsQuery,
+  items: T[]
+): Promise<FollowSettingsResult & { news: T[] }> {
+  if (query.kind !== "entity-news") return { news: items };
+  const user = await getCurrentUser();
+  if (!user) return { news: items };
+
+  const follows = await settingsForEntity(user.id, query.variables.entity);
+  if (follows.length === 0) return { news: items };
+  const { items: news, ...applied } = applySettings(
+    items,
+    follows.map(({ settings }) => settings)
+  );
+  return { news, ...applied };
 }
 
-// Define the OpenAI client type (simplified for our use case)
-interface OpenAIClient {
-  chat: {
-    completions: {
-      create: (params: {
-        model: string;
-        messages: Array<{ role: string; content: string }>;
-        max_tokens?: number;
-      }) => Promise<XaiChatCompletionResponse>;
-    };
+// A page of the stored news for a query. The model and feeds are only asked
+// for the first page and for newer items; older pages come from storage.
+// Follow settings are applied to the whole list before it is paged, so pages
+// stay full. Fixtures come back as fetched, without a page
+async function getNewsPage(
+  query: NewsQuery,
+  source: NewsSource,
+  page: PageRequest
+): Promise<
+  FollowSettingsResult & {
+    news: NewsItem[];
+    page?: PageInfo;
+    fetched?: NewsResult;
+  }
+> {
+  if (query.kind === "fixtures") {
+    const fetched = await getNews(query, source);
+    return { news: fetched.items, fetched };
+  }
+
+  const fetched = page.before ? undefined : await getNews(query, source);
+  const { news: stored, ...applied } = await applyFollowSettings(
+    query,
+    selectStoredNews(await listArticles(), query, source, fetched?.items)
+  );
+  // Each story shows once, with the other reports under it
+  const stories = clusterStories(stored);
+  const { items, page: info } = paginate(
+    stories,
+    ({ first }) => storedNewsKey(first),
+    page
+  );
+  return {
+    news: items.map(({ first, related }) => ({
+      ...toNewsItem(first),
+      ...(related.length > 0 && { related: related.map(toNewsItem) }),
+    })),
+    page: info,
+    fetched,
+    ...applied,
   };
 }
 
 export async function POST(req: NextRequest) {
+  // Looked up inside the try, so a misconfigured provider still gets a JSON
+  // error response
+  let providerLabel = "the model provider";
+
   try {
-    const { q } = await req.json(); // Get the search query (e.g., team/player name, latest news, upcoming games)
+    providerLabel = getLlmProvider().label;
+
+    // Body is { kind, ...variables }, e.g. { kind: "entity-news", q: "Fenerbahce" },
+    // { kind: "latest" } or { kind: "fixtures", days: 7 }. An optional
+    // source ("model", "feeds" or "merged") picks where items come from.
+    // News (not fixtures) is paged with before, after and limit
+    const body = await req.json();
+    const query = parseNewsQuery(body || {});
 
-    if (!q || typeof q !== "string") {
-      return NextResponse.json(
-        { error: "Please provide a valid query" },
+    if ("error" in query) {
+      return NextResponse.json<NewsResponse>(
+        { news: [], error: query.error, code: query.code },
         { status: 400 }
       );
     }
 
-    // Initialize the OpenAI client with xAI’s API
-    const openai = new OpenAI({
-      apiKey: process.env.XAI_API_KEY, // Use environment variable for xAI API key
-      baseURL: "https://api.x.ai/v1", // xAI’s API base URL (compatible with OpenAI SDK)
-    }) as OpenAIClient;
-
-    // Construct the prompt for Grok based on the query
-    let prompt: string;
-    if (q.toLowerCase().includes("latest football news")) {
-      prompt = `Provide a concise summary of the latest football (soccer) news. Return only the news items, one per line, in a simple list format. Include the date of each news item in the format YYYY-MM-DD, and a URL to a relevant article, separated by "|". For example: "News item 1 | 2025-03-01 | https://example.com/news1". Do not include any additional text or formatting. If no URL is available, use "https://example.com/placeholder".`;
-    } else if (
-      q.toLowerCase().includes("upcoming important football matches in europe")
-    ) {
-      prompt = `List upcoming important football matches in Europe for the next 7 days, one per line, include dates and teams in the format "Match details | YYYY-MM-DD | https://example.com/match", no extra text or formatting. If no URL is available, use "https://example.com/placeholder".`;
-    } else {
-      prompt = `Provide a concise summary of the latest football (soccer) news for ${q}. Return only the news items, one per line, in a simple list format. Include the date of each news item in the format YYYY-MM-DD, and a URL to a relevant article, separated by "|". For example: "News item 1 | 2025-03-01 | https://example.com/news1". Do not include any additional text or formatting. If no URL is available, use "https://example.com/placeholder".`;
+    const source = parseNewsSource(body?.source);
+    if (typeof source !== "string") {
+      return NextResponse.json<NewsResponse>(
+        { news: [], error: source.error },
+        { status: 400 }
+      );
     }
 
-    // Call xAI’s /v1/chat/completions endpoint using OpenAI SDK
-    const completion = await openai.chat.completions.create({
-      model: "grok-beta", // Use grok-beta (or grok-3 if preferred, based on xAI’s availability)
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a helpful AI assistant specializing in football (soccer) news and schedules.",
-        },
-        { role: "user", content: prompt },
-      ],
-      max_tokens: 150, // Limit the response length to keep it concise
-    });
-
-    // Extract news summaries from the response
-    // Extract news summaries from the response
-    const newsContent = completion.choices[0]?.message?.content || "";
-    const newsSummaries = newsContent
-      .split("\n")
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0)
-      .map((line, index) => {
-        const [title, date, url] = line.split("|").map((part) => part.trim());
-        return {
-          id: `${index}-${Date.now()}`, // Simple unique ID based on index and timestamp
-          title,
-          date: date || new Date().toISOString().split("T")[0],
-          url: url || "https://example.com/placeholder",
-        };
-      });
-
-    if (newsSummaries.length === 0) {
-      throw new Error("No news or game data returned from xAI API");
+    const page = parsePageRequest(body, STORED_NEWS_KEY);
+    if ("error" in page) {
+      return NextResponse.json<NewsResponse>(
+        { news: [], error: page.error },
+        { status: 400 }
+      );
+    }
+    if (query.kind === "fixtures" && (page.before || page.after)) {
+      return NextResponse.json<NewsResponse>(
+        { news: [], error: "Fixtures can't be paged" },
+        { status: 400 }
+      );
     }
 
-    // Return the news summaries as JSON
-    // Return the news summaries as JSON
+    // Identical queries share one cached completion (see NEWS_CACHE_* settings)
+    const {
+      page: pageInfo,
+      fetched,
+      ...result
+    } = await getNewsPage(query, source, page);
+
+    // Return the news summaries as JSON, with the cache outcome in headers
     return NextResponse.json<NewsResponse>(
-      { news: newsSummaries },
-      { status: 200 }
+      {
+        ...result,
+        // A muted follow has no further pages either
+        ...(pageInfo && !result.mutedUntil && { page: pageInfo }),
+        ...(fetched?.status === "FALLBACK" && { stale: true }),
+      },
+      {
+        status: 200,
+        headers: fetched
+          ? {
+              "X-Cache": fetched.status,
+              Age: String(fetched.ageSeconds),
+              ...(fetched.promptVersion && {
+                "X-Prompt-Version": `${query.kind}@${fetched.promptVersion}`,
+              }),
+            }
+          : {},
+      }
     );
-  } catch (error: any) {
-    console.error("Error fetching news from xAI:", {
-      message: error.message,
-      stack: error.stack,
-      response: error.response
-        ? {
-            status: error.response.status,
-            data: error.response.data,
-            headers: error.response.headers,
-          }
-        : null,
-      request: error.request
-        ? {
-            method: error.request.method,
-            url: error.request.url,
-          }
-        : null,
+  } catch (error: unknown) {
+    console.error(`Error fetching news from ${providerLabel}:`, {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      status: error instanceof LlmProviderError ? error.status : undefined,
     });
 
-    // Check if the error is from xAI (e.g., 401, 403, 429, etc.)
-    if (error.response) {
-      const status = error.response.status;
-      const errorMessage =
-        error.response.data?.error?.message || "Failed to fetch news from xAI";
+    if (error instanceof NewsServiceError) {
+      return NextResponse.json<NewsResponse>(
+        { news: [], error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    // Check if the error came back from the provider (e.g., 401, 403, 429, etc.)
+    if (error instanceof LlmProviderError && error.status) {
+      const status = error.status;
 
       if (status === 401) {
         return NextResponse.json(
-          { error: "Invalid or missing xAI API key" },
+          { error: `Invalid or missing ${providerLabel} API key` },
           { status: 401 }
         );
       } else if (status === 403) {
         return NextResponse.json(
-          { error: "Access forbidden to xAI API" },
+          { error: `Access forbidden to ${providerLabel} API` },
           { status: 403 }
         );
       } else if (status === 429) {
         return NextResponse.json(
-          { error: "Rate limit exceeded for xAI API" },
+          { error: `Rate limit exceeded for ${providerLabel} API` },
           { status: 429 }
         );
+      } else if (status === 503 && error.retryAfterMs !== undefined) {
+        // Circuit breaker is open; tell clients when to come back
+        return NextResponse.json(
+          { error: error.message },
+          {
+            status: 503,
+            headers: {
+              "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)),
+            },
+          }
+        );
       }
-      return NextResponse.json(
-        { error: errorMessage },
-        { status: status || 500 }
-      );
+      return NextResponse.json({ error: error.message }, { status });
     }
 
-    // Generic error for non-xAI-related issues (e.g., network errors)
+    // Generic error for non-provider issues (e.g., network errors)
     return NextResponse.json(
-      { error: "Failed to fetch news from xAI" },
+      { error: `Failed to fetch news from ${providerLabel}` },
       { status: 500 }
     );
   }
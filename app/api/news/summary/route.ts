@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
+import { getLlmProvider } from "@/app/lib/llm";
+import {
+  buildSummaryRequest,
+  rejectOffTaskSummary,
+  resolveSummaryExcerpt,
+  resolveSummaryTitle,
+} from "@/app/lib/news/summary";
 
 // Define the type for the summary response
 interface SummaryResponse {
@@ -8,62 +14,64 @@ interface SummaryResponse {
 }
 
 export async function POST(req: NextRequest) {
+  // Looked up inside the try, so a misconfigured provider still gets a JSON
+  // error response
+  let providerLabel = "the model provider";
+
   try {
-    const { newsId, title } = await req.json();
+    const provider = getLlmProvider();
+    providerLabel = provider.label;
+    const { newsId, title: requestTitle } = await req.json();
+
+    const title = await resolveSummaryTitle(
+      newsId,
+      requestTitle,
+      "/api/news/summary"
+    );
 
-    if (
-      !newsId ||
-      typeof newsId !== "string" ||
-      !title ||
-      typeof title !== "string"
-    ) {
+    if (!title.ok) {
       return NextResponse.json<SummaryResponse>(
         {
-          error: "Invalid news ID or title",
+          error: title.reason,
           summary: "",
         },
         { status: 400 }
       );
     }
 
-    // Initialize the OpenAI client with xAI’s API
-    const openai = new OpenAI({
-      apiKey: process.env.XAI_API_KEY,
-      baseURL: "https://api.x.ai/v1",
-    });
+    // Call whichever provider LLM_PROVIDER selects (xAI by default)
+    const completion = await provider.complete(
+      buildSummaryRequest(
+        title.value,
+        await resolveSummaryExcerpt(newsId, "/api/news/summary")
+      )
+    );
 
-    // Construct the prompt for a detailed summary using the title
-    const prompt = `Provide a detailed but concise summary (about 100-150 words) of the football news item titled "${title}". Include key details, context, and any relevant updates. Do not include any additional formatting or text beyond the summary itself.`;
+    const summary = completion.content;
+    if (!summary) {
+      throw new Error(`No summary returned from ${provider.label} API`);
+    }
 
-    // Call xAI’s /v1/chat/completions endpoint
-    const completion = await openai.chat.completions.create({
-      model: "grok-beta",
-      messages: [
+    if (rejectOffTaskSummary(summary, "/api/news/summary", title.value)) {
+      return NextResponse.json<SummaryResponse>(
         {
-          role: "system",
-          content:
-            "You are a helpful AI assistant specializing in football (soccer) news summaries.",
+          error: "The generated summary was withheld because it went off topic",
+          summary: "",
         },
-        { role: "user", content: prompt },
-      ],
-      max_tokens: 200,
-    });
-
-    const summary = completion.choices[0]?.message?.content || "";
-    if (!summary) {
-      throw new Error("No summary returned from xAI API");
+        { status: 502 }
+      );
     }
 
     return NextResponse.json<SummaryResponse>({ summary }, { status: 200 });
-} catch (error: unknown) {
-    console.error("Error fetching summary from xAI:", {
+  } catch (error: unknown) {
+    console.error(`Error fetching summary from ${providerLabel}:`, {
       message: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
     });
     return NextResponse.json<SummaryResponse>(
       {
-          error: "Failed to fetch the summary",
-          summary: ""
+        error: "Failed to fetch the summary",
+        summary: "",
       },
       { status: 500 }
     );
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLlmProvider } from "@/app/lib/llm";
+import {
+  buildSummaryRequest,
+  rejectOffTaskSummary,
+  resolveSummaryExcerpt,
+  resolveSummaryTitle,
+} from "@/app/lib/news/summary";
+
+// Characters held back and checked before anything reaches the client, so an
+// answer that opens off task is never shown
+const HOLDBACK_CHARS = 160;
+
+// Streaming variant of /api/news/summary: the body is plain text written
+// token by token as the model produces it
+export async function POST(req: NextRequest) {
+  const route = "/api/news/summary/stream";
+  // Looked up inside the try, so a misconfigured provider still gets a JSON
+  // error response
+  let providerLabel = "the model provider";
+
+  try {
+    const provider = getLlmProvider();
+    providerLabel = provider.label;
+    const { newsId, title: requestTitle } = await req.json();
+    const title = await resolveSummaryTitle(newsId, requestTitle, route);
+
+    if (!title.ok) {
+      return NextResponse.json({ error: title.reason }, { status: 400 });
+    }
+
+    // req.signal fires when the client disconnects, which cancels the upstream request
+    const tokens = provider.stream(
+      buildSummaryRequest(
+        title.value,
+        await resolveSummaryExcerpt(newsId, route)
+      ),
+      req.signal
+    );
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let summary = "";
+        let flushed = 0; // How much of summary has been sent
+        const flush = () => {
+          if (!flushed && rejectOffTaskSummary(summary, route)) {
+            throw new Error("Summary went off topic");
+          }
+          controller.enqueue(encoder.encode(summary.slice(flushed)));
+          flushed = summary.length;
+        };
+
+        try {
+          for await (const token of tokens) {
+            summary += token;
+            if (flushed || summary.length >= HOLDBACK_CHARS) flush();
+          }
+          flush();
+          // The topic check needs the whole text; failing it turns the
+          // stream into an error so the page drops what it showed
+          if (rejectOffTaskSummary(summary, route, title.value)) {
+            throw new Error("Summary went off topic");
+          }
+          controller.close();
+        } catch (error: unknown) {
+          if (req.signal.aborted) return; // Client went away; nothing to report
+          console.error(`Error streaming summary from ${providerLabel}:`, {
+            message: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined,
+          });
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error: unknown) {
+    console.error(`Error starting summary stream from ${providerLabel}:`, {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { error: "Failed to fetch the summary" },
+      { status: 500 }
+    );
+  }
+}
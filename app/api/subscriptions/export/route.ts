@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/app/lib/auth/session";
+import { getSubscriptions } from "@/app/lib/subscriptions/repository";
+import { exportJson, exportOpml } from "@/app/lib/subscriptions/transfer";
+
+// GET /api/subscriptions/export?format=json|opml, as a file download
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const format = req.nextUrl.searchParams.get("format") || "json";
+    if (format !== "json" && format !== "opml") {
+      return NextResponse.json(
+        { error: "format must be json or opml" },
+        { status: 400 }
+      );
+    }
+
+    const subscriptions = await getSubscriptions(user.id);
+    const date = new Date().toISOString().slice(0, 10);
+    const body =
+      format === "opml" ? exportOpml(subscriptions) : exportJson(subscriptions);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type":
+          format === "opml"
+            ? "text/x-opml; charset=utf-8"
+            : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="subscriptions-${date}.${format}"`,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error in GET /api/subscriptions/export:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json(
+      { error: "Failed to export subscriptions" },
+      { status: 500 }
+    );
+  }
+}
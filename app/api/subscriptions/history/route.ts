@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/app/lib/auth/session";
+import { getHistory, HistoryEvent } from "@/app/lib/subscriptions/history";
+
+// Define the response type for the history
+interface HistoryResponse {
+  events: HistoryEvent[]; // Newest first
+  error?: string;
+}
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json<HistoryResponse>(
+        { events: [], error: "Not signed in" },
+        { status: 401 }
+      );
+    }
+
+    const events = (await getHistory(user.id)).reverse();
+    return NextResponse.json<HistoryResponse>({ events }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error in GET /api/subscriptions/history:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json<HistoryResponse>(
+      { events: [], error: "Failed to load subscription history" },
+      { status: 500 }
+    );
+  }
+}
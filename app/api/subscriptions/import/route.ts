@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/app/lib/auth/session";
+import {
+  ImportReport,
+  importSubscriptions,
+} from "@/app/lib/subscriptions/repository";
+import {
+  ImportFormatError,
+  parseImport,
+  readImportBody,
+  TransferFormat,
+} from "@/app/lib/subscriptions/transfer";
+
+// Define the response type for imports
+type ImportResponse = Partial<ImportReport> & {
+  success: boolean;
+  error?: string;
+};
+
+// POST /api/subscriptions/import?mode=merge|replace&format=json|opml with the
+// file contents as the body. The format is detected when not given
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json<ImportResponse>(
+        { error: "Not signed in", success: false },
+        { status: 401 }
+      );
+    }
+
+    const mode = req.nextUrl.searchParams.get("mode") || "merge";
+    const format = req.nextUrl.searchParams.get("format") || undefined;
+    if (mode !== "merge" && mode !== "replace") {
+      return NextResponse.json<ImportResponse>(
+        { error: "mode must be merge or replace", success: false },
+        { status: 400 }
+      );
+    }
+    if (format && format !== "json" && format !== "opml") {
+      return NextResponse.json<ImportResponse>(
+        { error: "format must be json or opml", success: false },
+        { status: 400 }
+      );
+    }
+
+    const entries = parseImport(
+      await readImportBody(req),
+      format as TransferFormat | undefined
+    );
+    const report = await importSubscriptions(user.id, entries, mode);
+
+    return NextResponse.json<ImportResponse>(
+      { success: true, ...report },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    if (error instanceof ImportFormatError) {
+      return NextResponse.json<ImportResponse>(
+        { error: error.message, success: false },
+        { status: 400 }
+      );
+    }
+    console.error("Error in POST /api/subscriptions/import:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json<ImportResponse>(
+      { error: "Failed to import subscriptions", success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import fs from "fs";
-import path from "path";
-
-// Define the path for the subscriptions file in the project root
-const subscriptionsFile = path.join(process.cwd(), "subscriptions.json");
-
-// Define the subscriptions type
-interface Subscriptions {
-  leagues: string[];
-  teams: string[];
-  players: string[];
-  tournaments: string[]; // Add tournaments to the interface
-}
+import { getCurrentUser } from "@/app/lib/auth/session";
+import { isValidEntityName } from "@/app/lib/entities/registry";
+import {
+  addSubscription,
+  getSubscriptions,
+  removeSubscription,
+  renameSubscription,
+} from "@/app/lib/subscriptions/repository";
+import { normalizeCategory } from "@/app/lib/subscriptions/categories";
+import { SubscriptionSettings } from "@/app/lib/subscriptions/settings";
 
 // Define the response type for subscription data
 interface SubscriptionsResponse {
@@ -19,68 +16,38 @@ interface SubscriptionsResponse {
   teams: string[];
   players: string[];
   tournaments: string[]; // Add tournaments to the response
+  custom: Record<string, string[]>; // User-defined categories by name
+  settings: Record<string, SubscriptionSettings>; // By settingsKey(term, category)
   error?: string;
 }
 
 // Define the response type for operation results (e.g., POST, DELETE)
 interface SubscriptionOperationResponse {
   success: boolean;
+  term?: string; // What POST or PATCH stored, after resolving to a canonical entity
+  category?: string;
   error?: string;
 }
 
-function getSubscriptions(): Subscriptions {
+export async function GET() {
   try {
-    if (!fs.existsSync(subscriptionsFile)) {
-      fs.writeFileSync(
-        subscriptionsFile,
-        JSON.stringify(
-          { leagues: [], teams: [], players: [], tournaments: [] },
-          null,
-          2
-        )
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json<SubscriptionsResponse>(
+        {
+          error: "Not signed in",
+          leagues: [],
+          teams: [],
+          players: [],
+          tournaments: [],
+          custom: {},
+          settings: {},
+        },
+        { status: 401 }
       );
     }
-    const data = fs.readFileSync(subscriptionsFile, "utf-8");
-    return (
-      JSON.parse(data) || {
-        leagues: [],
-        teams: [],
-        players: [],
-        tournaments: [],
-      }
-    );
-  } catch (error: unknown) {
-    // Use 'unknown' for caught errors
-    console.error("Error loading subscriptions:", {
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-      file: subscriptionsFile,
-    });
-    return { leagues: [], teams: [], players: [], tournaments: [] }; // Fallback to default, including tournaments
-  }
-}
-
-function saveSubscriptions(subscriptions: Subscriptions): void {
-  try {
-    fs.writeFileSync(subscriptionsFile, JSON.stringify(subscriptions, null, 2));
-  } catch (error: unknown) {
-    // Use 'unknown' for caught errors
-    console.error("Error saving subscriptions:", {
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-      file: subscriptionsFile,
-    });
-    throw new Error(
-      `Failed to save subscriptions: ${
-        error instanceof Error ? error.message : String(error)
-      }`
-    );
-  }
-}
 
-export async function GET() {
-  try {
-    const subscriptions = getSubscriptions();
+    const subscriptions = await getSubscriptions(user.id);
     return NextResponse.json<SubscriptionsResponse>(subscriptions, {
       status: 200,
     });
@@ -97,6 +64,8 @@ export async function GET() {
         teams: [],
         players: [],
         tournaments: [], // Include tournaments in fallback
+        custom: {},
+        settings: {},
       },
       { status: 500 }
     );
@@ -105,11 +74,20 @@ export async function GET() {
 
 export async function POST(req: NextRequest) {
   try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json<SubscriptionOperationResponse>(
+        { error: "Not signed in", success: false },
+        { status: 401 }
+      );
+    }
+
     const { term, category } = await req.json();
 
     if (
       !term ||
       typeof term !== "string" ||
+      !isValidEntityName(term) ||
       !category ||
       typeof category !== "string"
     ) {
@@ -122,42 +100,17 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const currentSubs = getSubscriptions();
-
-    switch (category.toLowerCase()) {
-      case "league":
-        if (!currentSubs.leagues.includes(term)) {
-          currentSubs.leagues.push(term);
-          saveSubscriptions(currentSubs);
-        }
-        break;
-      case "team":
-        if (!currentSubs.teams.includes(term)) {
-          currentSubs.teams.push(term);
-          saveSubscriptions(currentSubs);
-        }
-        break;
-      case "player":
-        if (!currentSubs.players.includes(term)) {
-          currentSubs.players.push(term);
-          saveSubscriptions(currentSubs);
-        }
-        break;
-      case "tournament":
-        if (!currentSubs.tournaments.includes(term)) {
-          currentSubs.tournaments.push(term);
-          saveSubscriptions(currentSubs);
-        }
-        break;
-      default:
-        return NextResponse.json<SubscriptionOperationResponse>(
-          { error: "Invalid category", success: false },
-          { status: 400 }
-        );
+    const normalized = normalizeCategory(category);
+    if (!normalized) {
+      return NextResponse.json<SubscriptionOperationResponse>(
+        { error: "Invalid category", success: false },
+        { status: 400 }
+      );
     }
+    const stored = await addSubscription(user.id, term, normalized);
 
     return NextResponse.json<SubscriptionOperationResponse>(
-      { success: true },
+      { success: true, ...stored },
       { status: 200 }
     );
   } catch (error: unknown) {
@@ -174,6 +127,14 @@ export async function POST(req: NextRequest) {
 
 export async function DELETE(req: NextRequest) {
   try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json<SubscriptionOperationResponse>(
+        { error: "Not signed in", success: false },
+        { status: 401 }
+      );
+    }
+
     const { term, category } = await req.json();
 
     if (
@@ -191,42 +152,17 @@ export async function DELETE(req: NextRequest) {
       );
     }
 
-    const currentSubs = getSubscriptions();
-
-    switch (category.toLowerCase()) {
-      case "league":
-        currentSubs.leagues = currentSubs.leagues.filter(
-          (item: string) => item !== term
-        );
-        saveSubscriptions(currentSubs);
-        break;
-      case "team":
-        currentSubs.teams = currentSubs.teams.filter(
-          (item: string) => item !== term
-        );
-        saveSubscriptions(currentSubs);
-        break;
-      case "player":
-        currentSubs.players = currentSubs.players.filter(
-          (item: string) => item !== term
-        );
-        saveSubscriptions(currentSubs);
-        break;
-      case "tournament": // Handle new Tournament category
-        currentSubs.tournaments = currentSubs.tournaments.filter(
-          (item: string) => item !== term
-        );
-        saveSubscriptions(currentSubs);
-        break;
-      default:
-        return NextResponse.json<SubscriptionOperationResponse>(
-          {
-            error: "Invalid category",
-            success: false,
-          },
-          { status: 400 }
-        );
+    const normalized = normalizeCategory(category);
+    if (!normalized) {
+      return NextResponse.json<SubscriptionOperationResponse>(
+        {
+          error: "Invalid category",
+          success: false,
+        },
+        { status: 400 }
+      );
     }
+    await removeSubscription(user.id, term, normalized);
 
     return NextResponse.json<SubscriptionOperationResponse>(
       { success: true },
@@ -247,3 +183,74 @@ export async function DELETE(req: NextRequest) {
     );
   }
 }
+
+// Rename a follow in place: { term, category, newTerm }
+export async function PATCH(req: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json<SubscriptionOperationResponse>(
+        { error: "Not signed in", success: false },
+        { status: 401 }
+      );
+    }
+
+    const { term, category, newTerm } = await req.json();
+
+    if (
+      !term ||
+      typeof term !== "string" ||
+      !newTerm ||
+      typeof newTerm !== "string" ||
+      !isValidEntityName(newTerm) ||
+      !category ||
+      typeof category !== "string"
+    ) {
+      return NextResponse.json<SubscriptionOperationResponse>(
+        {
+          error: "Invalid rename data",
+          success: false,
+        },
+        { status: 400 }
+      );
+    }
+
+    const normalized = normalizeCategory(category);
+    if (!normalized) {
+      return NextResponse.json<SubscriptionOperationResponse>(
+        { error: "Invalid category", success: false },
+        { status: 400 }
+      );
+    }
+
+    const renamed = await renameSubscription(
+      user.id,
+      term,
+      normalized,
+      newTerm
+    );
+    if (!renamed) {
+      return NextResponse.json<SubscriptionOperationResponse>(
+        { error: "Subscription not found", success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<SubscriptionOperationResponse>(
+      { success: true, term: renamed, category: normalized },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("Error in PATCH /api/subscriptions:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json<SubscriptionOperationResponse>(
+      {
+        error: "Failed to rename",
+        success: false,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/app/lib/auth/session";
+import { normalizeCategory } from "@/app/lib/subscriptions/categories";
+import { updateSubscriptionSettings } from "@/app/lib/subscriptions/repository";
+import {
+  parseSettings,
+  SubscriptionSettings,
+} from "@/app/lib/subscriptions/settings";
+
+// Define the response type for settings updates
+interface SettingsResponse {
+  success: boolean;
+  settings?: SubscriptionSettings; // As stored, with defaults filled in
+  error?: string;
+}
+
+// Replace a follow's settings: { term, category, settings: { priority,
+// mutedUntil, include, exclude } }
+export async function PUT(req: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json<SettingsResponse>(
+        { error: "Not signed in", success: false },
+        { status: 401 }
+      );
+    }
+
+    const { term, category, settings } = await req.json();
+
+    if (
+      !term ||
+      typeof term !== "string" ||
+      !category ||
+      typeof category !== "string"
+    ) {
+      return NextResponse.json<SettingsResponse>(
+        { error: "Invalid subscription data", success: false },
+        { status: 400 }
+      );
+    }
+
+    const normalized = normalizeCategory(category);
+    if (!normalized) {
+      return NextResponse.json<SettingsResponse>(
+        { error: "Invalid category", success: false },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseSettings(settings);
+    if (typeof parsed === "string") {
+      return NextResponse.json<SettingsResponse>(
+        { error: parsed, success: false },
+        { status: 400 }
+      );
+    }
+
+    const found = await updateSubscriptionSettings(
+      user.id,
+      term,
+      normalized,
+      parsed
+    );
+    if (!found) {
+      return NextResponse.json<SettingsResponse>(
+        { error: "Subscription not found", success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<SettingsResponse>(
+      { success: true, settings: parsed },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("Error in PUT /api/subscriptions/settings:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json<SettingsResponse>(
+      { error: "Failed to save settings", success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/app/lib/auth/session";
+import type { HistoryEvent } from "@/app/lib/subscriptions/history";
+import {
+  Subscriptions,
+  undoLastChange,
+} from "@/app/lib/subscriptions/repository";
+
+// Define the response type for undo
+interface UndoResponse {
+  success: boolean;
+  undone?: HistoryEvent[]; // The inverse events that were recorded
+  subscriptions?: Subscriptions;
+  error?: string;
+}
+
+// Reverse the most recent subscription change
+export async function POST() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json<UndoResponse>(
+        { error: "Not signed in", success: false },
+        { status: 401 }
+      );
+    }
+
+    const { subscriptions, changes } = await undoLastChange(user.id);
+    if (changes.length === 0) {
+      return NextResponse.json<UndoResponse>(
+        { error: "Nothing to undo", success: false, subscriptions },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json<UndoResponse>(
+      { success: true, undone: changes, subscriptions },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("Error in POST /api/subscriptions/undo:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return NextResponse.json<UndoResponse>(
+      { error: "Failed to undo", success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server";
+
+// Admin endpoints are disabled unless ADMIN_TOKEN is set, and then require
+// the same value in the x-admin-token header
+export function isAdminRequest(req: NextRequest): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  return !!token && req.headers.get("x-admin-token") === token;
+}
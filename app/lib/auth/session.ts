@@ -0,0 +1,87 @@
+import crypto from "crypto";
+import { cookies } from "next/headers";
+import { DocumentSpec, getStorage } from "@/app/lib/storage";
+import { getUserById, User } from "./users";
+
+// Cookie sessions. The cookie holds a random token; only its hash is stored,
+// so a leaked sessions document can't be replayed
+
+interface Session {
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+type SessionMap = Record<string, Session>;
+
+const SESSIONS_DOCUMENT: DocumentSpec<SessionMap> = {
+  name: "sessions",
+  validate: (data) =>
+    data && typeof data === "object" && !Array.isArray(data)
+      ? (data as SessionMap)
+      : null,
+  empty: () => ({}),
+};
+
+export const SESSION_COOKIE = "session";
+
+function getSessionTtlMs(): number {
+  const days = Number(process.env.SESSION_TTL_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : 30) * 24 * 3600 * 1000;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Start a session for the user and set the cookie. Expired sessions are
+// dropped on the way
+export async function startSession(userId: string): Promise<void> {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const expiresAt = new Date(now + getSessionTtlMs());
+
+  const storage = await getStorage();
+  await storage.update(SESSIONS_DOCUMENT, (sessions) => {
+    Object.keys(sessions).forEach((key) => {
+      if (Date.parse(sessions[key].expiresAt) <= now) delete sessions[key];
+    });
+    sessions[hashToken(token)] = {
+      userId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+  });
+
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export async function endSession(): Promise<void> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  if (token) {
+    const storage = await getStorage();
+    await storage.update(SESSIONS_DOCUMENT, (sessions) => {
+      delete sessions[hashToken(token)];
+    });
+  }
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+// The signed-in user for this request, or null
+export async function getCurrentUser(): Promise<User | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const storage = await getStorage();
+  const sessions = await storage.read(SESSIONS_DOCUMENT);
+  const session = sessions[hashToken(token)];
+  if (!session || Date.parse(session.expiresAt) <= Date.now()) return null;
+  return getUserById(session.userId);
+}
@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import { DocumentSpec, getStorage } from "@/app/lib/storage";
+
+// Local accounts. Passwords are hashed with scrypt and a per-user salt
+
+export interface User {
+  id: string;
+  username: string;
+  createdAt: string;
+}
+
+interface StoredUser extends User {
+  passwordHash: string;
+  salt: string;
+}
+
+// Keyed by the lowercased username so names are unique regardless of case
+type UserMap = Record<string, StoredUser>;
+
+const USERS_DOCUMENT: DocumentSpec<UserMap> = {
+  name: "users",
+  validate: (data) =>
+    data && typeof data === "object" && !Array.isArray(data)
+      ? (data as UserMap)
+      : null,
+  empty: () => ({}),
+};
+
+export const MIN_PASSWORD_LENGTH = 8;
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+function hashPassword(password: string, salt: string): string {
+  return crypto.scryptSync(password, salt, 64).toString("hex");
+}
+
+function toUser({ id, username, createdAt }: StoredUser): User {
+  return { id, username, createdAt };
+}
+
+// Whether any account exists yet. The first one claimed the subscriptions
+// that predate accounts
+export async function hasUsers(): Promise<boolean> {
+  const storage = await getStorage();
+  return Object.keys(await storage.read(USERS_DOCUMENT)).length > 0;
+}
+
+// Returns the new user and whether it is the first account, which claims the
+// subscriptions that predate accounts
+export async function createUser(
+  username: unknown,
+  password: unknown
+): Promise<{ user: User; first: boolean }> {
+  if (typeof username !== "string" || !USERNAME_PATTERN.test(username)) {
+    throw new AuthError(
+      "Username must be 3-32 letters, numbers, dots, dashes or underscores",
+      400
+    );
+  }
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      400
+    );
+  }
+
+  const key = username.toLowerCase();
+  let created: StoredUser | null = null;
+  let first = false;
+  const storage = await getStorage();
+  await storage.update(USERS_DOCUMENT, (users) => {
+    if (users[key]) return;
+    first = Object.keys(users).length === 0;
+    const salt = crypto.randomBytes(16).toString("hex");
+    created = {
+      id: crypto.randomUUID(),
+      username,
+      createdAt: new Date().toISOString(),
+      passwordHash: hashPassword(password, salt),
+      salt,
+    };
+    users[key] = created;
+  });
+
+  if (!created) {
+    throw new AuthError("Username is already taken", 409);
+  }
+  return { user: toUser(created), first };
+}
+
+export async function verifyCredentials(
+  username: unknown,
+  password: unknown
+): Promise<User | null> {
+  if (typeof username !== "string" || typeof password !== "string") {
+    return null;
+  }
+  const storage = await getStorage();
+  const users = await storage.read(USERS_DOCUMENT);
+  const stored = users[username.toLowerCase()];
+  if (!stored) return null;
+
+  const expected = Buffer.from(stored.passwordHash, "hex");
+  const actual = Buffer.from(hashPassword(password, stored.salt), "hex");
+  return crypto.timingSafeEqual(expected, actual) ? toUser(stored) : null;
+}
+
+export async function getUserById(id: string): Promise<User | null> {
+  const storage = await getStorage();
+  const users = await storage.read(USERS_DOCUMENT);
+  const stored = Object.values(users).find((user) => user.id === id);
+  return stored ? toUser(stored) : null;
+}
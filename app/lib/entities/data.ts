@@ -0,0 +1,376 @@
+import { Entity } from "./types";
+
+// The built-in registry. Aliases only need to cover spellings that don't
+// already match after normalization (case, diacritics and punctuation are
+// ignored), e.g. nicknames, abbreviations and sponsor names
+export const ENTITIES: Entity[] = [
+  // Leagues
+  {
+    id: "league:premier-league",
+    name: "Premier League",
+    category: "league",
+    aliases: ["EPL", "English Premier League", "Barclays Premier League"],
+    country: "England",
+  },
+  {
+    id: "league:la-liga",
+    name: "La Liga",
+    category: "league",
+    aliases: ["LaLiga", "Primera Division", "LaLiga EA Sports"],
+    country: "Spain",
+  },
+  {
+    id: "league:serie-a",
+    name: "Serie A",
+    category: "league",
+    aliases: ["Serie A TIM", "Italian Serie A"],
+    country: "Italy",
+  },
+  {
+    id: "league:bundesliga",
+    name: "Bundesliga",
+    category: "league",
+    aliases: ["German Bundesliga", "1. Bundesliga"],
+    country: "Germany",
+  },
+  {
+    id: "league:ligue-1",
+    name: "Ligue 1",
+    category: "league",
+    aliases: ["Ligue 1 McDonald's", "French Ligue 1"],
+    country: "France",
+  },
+  {
+    id: "league:super-lig",
+    name: "Süper Lig",
+    category: "league",
+    aliases: ["Trendyol Süper Lig", "Turkish Super League", "Super Lig"],
+    country: "Turkey",
+  },
+  {
+    id: "league:eredivisie",
+    name: "Eredivisie",
+    category: "league",
+    aliases: ["Dutch Eredivisie"],
+    country: "Netherlands",
+  },
+  {
+    id: "league:primeira-liga",
+    name: "Primeira Liga",
+    category: "league",
+    aliases: ["Liga Portugal", "Liga Portugal Betclic"],
+    country: "Portugal",
+  },
+  {
+    id: "league:championship",
+    name: "EFL Championship",
+    category: "league",
+    aliases: ["Championship", "English Championship"],
+    country: "England",
+  },
+  {
+    id: "league:mls",
+    name: "Major League Soccer",
+    category: "league",
+    aliases: ["MLS"],
+    country: "United States",
+  },
+  {
+    id: "league:saudi-pro-league",
+    name: "Saudi Pro League",
+    category: "league",
+    aliases: ["Roshn Saudi League", "SPL"],
+    country: "Saudi Arabia",
+  },
+  {
+    id: "league:wsl",
+    name: "Women's Super League",
+    category: "league",
+    aliases: ["WSL", "Barclays Women's Super League"],
+    country: "England",
+  },
+
+  // Clubs
+  {
+    id: "team:fenerbahce",
+    name: "Fenerbahçe",
+    category: "team",
+    aliases: ["Fener", "Fenerbahce SK"],
+    country: "Turkey",
+  },
+  {
+    id: "team:galatasaray",
+    name: "Galatasaray",
+    category: "team",
+    aliases: ["Cimbom", "Galatasaray SK"],
+    country: "Turkey",
+  },
+  {
+    id: "team:besiktas",
+    name: "Beşiktaş",
+    category: "team",
+    aliases: ["Besiktas JK", "BJK"],
+    country: "Turkey",
+  },
+  {
+    id: "team:trabzonspor",
+    name: "Trabzonspor",
+    category: "team",
+    aliases: [],
+    country: "Turkey",
+  },
+  {
+    id: "team:real-madrid",
+    name: "Real Madrid",
+    category: "team",
+    aliases: ["Real Madrid CF", "Los Blancos"],
+    country: "Spain",
+  },
+  {
+    id: "team:barcelona",
+    name: "FC Barcelona",
+    category: "team",
+    aliases: ["Barcelona", "Barça", "Barca"],
+    country: "Spain",
+  },
+  {
+    id: "team:atletico-madrid",
+    name: "Atlético Madrid",
+    category: "team",
+    aliases: ["Atlético de Madrid", "Atleti"],
+    country: "Spain",
+  },
+  {
+    id: "team:manchester-united",
+    name: "Manchester United",
+    category: "team",
+    aliases: ["Man United", "Man Utd", "MUFC"],
+    country: "England",
+  },
+  {
+    id: "team:manchester-city",
+    name: "Manchester City",
+    category: "team",
+    aliases: ["Man City", "MCFC"],
+    country: "England",
+  },
+  {
+    id: "team:liverpool",
+    name: "Liverpool",
+    category: "team",
+    aliases: ["Liverpool FC", "LFC"],
+    country: "England",
+  },
+  {
+    id: "team:arsenal",
+    name: "Arsenal",
+    category: "team",
+    aliases: ["Arsenal FC", "The Gunners"],
+    country: "England",
+  },
+  {
+    id: "team:chelsea",
+    name: "Chelsea",
+    category: "team",
+    aliases: ["Chelsea FC"],
+    country: "England",
+  },
+  {
+    id: "team:tottenham",
+    name: "Tottenham Hotspur",
+    category: "team",
+    aliases: ["Tottenham", "Spurs"],
+    country: "England",
+  },
+  {
+    id: "team:juventus",
+    name: "Juventus",
+    category: "team",
+    aliases: ["Juve"],
+    country: "Italy",
+  },
+  {
+    id: "team:inter",
+    name: "Inter Milan",
+    category: "team",
+    aliases: ["Inter", "Internazionale", "FC Internazionale Milano"],
+    country: "Italy",
+  },
+  {
+    id: "team:ac-milan",
+    name: "AC Milan",
+    category: "team",
+    aliases: ["Milan"],
+    country: "Italy",
+  },
+  {
+    id: "team:napoli",
+    name: "Napoli",
+    category: "team",
+    aliases: ["SSC Napoli"],
+    country: "Italy",
+  },
+  {
+    id: "team:bayern-munich",
+    name: "Bayern Munich",
+    category: "team",
+    aliases: ["Bayern", "FC Bayern München", "Bayern München"],
+    country: "Germany",
+  },
+  {
+    id: "team:borussia-dortmund",
+    name: "Borussia Dortmund",
+    category: "team",
+    aliases: ["Dortmund", "BVB"],
+    country: "Germany",
+  },
+  {
+    id: "team:psg",
+    name: "Paris Saint-Germain",
+    category: "team",
+    aliases: ["PSG", "Paris SG"],
+    country: "France",
+  },
+  {
+    id: "team:ajax",
+    name: "Ajax",
+    category: "team",
+    aliases: ["AFC Ajax"],
+    country: "Netherlands",
+  },
+  {
+    id: "team:benfica",
+    name: "Benfica",
+    category: "team",
+    aliases: ["SL Benfica"],
+    country: "Portugal",
+  },
+  {
+    id: "team:porto",
+    name: "FC Porto",
+    category: "team",
+    aliases: ["Porto"],
+    country: "Portugal",
+  },
+
+  // Players
+  {
+    id: "player:lionel-messi",
+    name: "Lionel Messi",
+    category: "player",
+    aliases: ["Messi", "Leo Messi"],
+  },
+  {
+    id: "player:cristiano-ronaldo",
+    name: "Cristiano Ronaldo",
+    category: "player",
+    aliases: ["Ronaldo", "CR7"],
+  },
+  {
+    id: "player:kylian-mbappe",
+    name: "Kylian Mbappé",
+    category: "player",
+    aliases: ["Mbappé"],
+  },
+  {
+    id: "player:erling-haaland",
+    name: "Erling Haaland",
+    category: "player",
+    aliases: ["Haaland", "Erling Braut Haaland"],
+  },
+  {
+    id: "player:mohamed-salah",
+    name: "Mohamed Salah",
+    category: "player",
+    aliases: ["Salah", "Mo Salah"],
+  },
+  {
+    id: "player:jude-bellingham",
+    name: "Jude Bellingham",
+    category: "player",
+    aliases: ["Bellingham"],
+  },
+  {
+    id: "player:vinicius-junior",
+    name: "Vinícius Júnior",
+    category: "player",
+    aliases: ["Vinicius Jr", "Vini Jr", "Vinícius Jr."],
+  },
+  {
+    id: "player:arda-guler",
+    name: "Arda Güler",
+    category: "player",
+    aliases: [],
+  },
+  {
+    id: "player:harry-kane",
+    name: "Harry Kane",
+    category: "player",
+    aliases: ["Kane"],
+  },
+  {
+    id: "player:lamine-yamal",
+    name: "Lamine Yamal",
+    category: "player",
+    aliases: ["Yamal"],
+  },
+
+  // Tournaments
+  {
+    id: "tournament:champions-league",
+    name: "UEFA Champions League",
+    category: "tournament",
+    aliases: ["Champions League", "UCL"],
+  },
+  {
+    id: "tournament:europa-league",
+    name: "UEFA Europa League",
+    category: "tournament",
+    aliases: ["Europa League", "UEL"],
+  },
+  {
+    id: "tournament:conference-league",
+    name: "UEFA Conference League",
+    category: "tournament",
+    aliases: ["Conference League", "UECL", "Europa Conference League"],
+  },
+  {
+    id: "tournament:world-cup",
+    name: "FIFA World Cup",
+    category: "tournament",
+    aliases: ["World Cup"],
+  },
+  {
+    id: "tournament:euro",
+    name: "UEFA European Championship",
+    category: "tournament",
+    aliases: ["Euro", "Euros", "European Championship"],
+  },
+  {
+    id: "tournament:copa-america",
+    name: "Copa América",
+    category: "tournament",
+    aliases: [],
+  },
+  {
+    id: "tournament:fa-cup",
+    name: "FA Cup",
+    category: "tournament",
+    aliases: ["Emirates FA Cup"],
+    country: "England",
+  },
+  {
+    id: "tournament:copa-del-rey",
+    name: "Copa del Rey",
+    category: "tournament",
+    aliases: [],
+    country: "Spain",
+  },
+  {
+    id: "tournament:turkish-cup",
+    name: "Turkish Cup",
+    category: "tournament",
+    aliases: ["Türkiye Kupası", "Ziraat Türkiye Kupası"],
+    country: "Turkey",
+  },
+];
@@ -0,0 +1,97 @@
+import { ENTITIES } from "./data";
+import { Entity } from "./types";
+
+export type { Entity } from "./types";
+
+// Letters that don't decompose into a base letter plus a combining mark
+const FOLDS: Record<string, string> = {
+  ı: "i",
+  ß: "ss",
+  ø: "o",
+  æ: "ae",
+  œ: "oe",
+  đ: "d",
+  ł: "l",
+  þ: "th",
+};
+
+// Built with the constructor: \p{...} needs the u flag, which the ES5 target
+// doesn't allow in regex literals
+const NON_WORD = new RegExp("[^\\p{L}\\p{N}]+", "gu");
+const VALID_NAME = new RegExp("^[\\p{L}\\p{M}\\p{N}\\s.'’&-]+$", "u");
+
+export const MAX_ENTITY_NAME_LENGTH = 100;
+
+// Matching key for a name: case, diacritics and punctuation are ignored, so
+// "FENERBAHÇE", "Fenerbahce" and "fenerbahçe." all give "fenerbahce". Letters
+// outside Latin are kept rather than dropped
+export function entityKey(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[ıßøæœđłþ]/g, (letter) => FOLDS[letter])
+    .replace(NON_WORD, " ")
+    .trim();
+}
+
+// Names people may subscribe to: letters in any script, digits, spaces and
+// the punctuation real club names use
+export function isValidEntityName(value: string): boolean {
+  const name = value.trim();
+  return (
+    name.length > 0 &&
+    name.length <= MAX_ENTITY_NAME_LENGTH &&
+    VALID_NAME.test(name)
+  );
+}
+
+const byKey = new Map<string, Entity>();
+const byId = new Map<string, Entity>();
+
+ENTITIES.forEach((entity) => {
+  byId.set(entity.id, entity);
+  [entity.name, ...entity.aliases].forEach((name) => {
+    const key = entityKey(name);
+    // First entry wins, so an alias can't take over another entity's name
+    if (!byKey.has(key)) byKey.set(key, entity);
+  });
+});
+
+export function resolveEntity(name: string): Entity | null {
+  return byKey.get(entityKey(name)) || null;
+}
+
+export function getEntity(id: string): Entity | null {
+  return byId.get(id) || null;
+}
+
+export function listEntities(): Entity[] {
+  return ENTITIES;
+}
+
+// Whether two names refer to the same thing: the same registry entity, or
+// equal once normalized
+export function isSameEntity(a: string, b: string): boolean {
+  const entityA = resolveEntity(a);
+  const entityB = resolveEntity(b);
+  if (entityA || entityB) return entityA?.id === entityB?.id;
+  return entityKey(a) === entityKey(b);
+}
+
+// Registry entities a piece of text mentions by name or alias, matched on
+// whole words. Used to tag articles that don't list their entities
+export function findEntitiesIn(text: string): Entity[] {
+  const haystack = ` ${entityKey(text)} `;
+  const found: Entity[] = [];
+  byKey.forEach((entity, key) => {
+    if (
+      key.length >= 3 &&
+      !found.includes(entity) &&
+      haystack.includes(` ${key} `)
+    ) {
+      found.push(entity);
+    }
+  });
+  return found;
+}
@@ -0,0 +1,102 @@
+import { listArticles } from "@/app/lib/news/store";
+import type { SubscriptionCategory } from "@/app/lib/subscriptions/categories";
+import { entityKey, listEntities, resolveEntity } from "./registry";
+
+export interface Suggestion {
+  name: string;
+  // Registry id and category; absent for names only seen in news items
+  id?: string;
+  category?: SubscriptionCategory;
+  source: "registry" | "news";
+  score: number;
+}
+
+export const MAX_SUGGESTIONS = 10;
+
+// How well a name matches the query key, 0 for no match. Whole-name matches
+// beat prefixes, which beat word prefixes, which beat substrings
+function matchScore(name: string, query: string): number {
+  const key = entityKey(name);
+  if (key === query) return 100;
+  if (key.startsWith(query))
+    return 80 - Math.min(key.length - query.length, 20);
+  if (key.split(" ").some((word) => word.startsWith(query))) return 50;
+  if (key.includes(query)) return 20;
+  return 0;
+}
+
+// Names mentioned in stored news items, with how many items mention each
+async function seenNewsEntities(): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  try {
+    (await listArticles()).forEach((article) =>
+      article.entities.forEach((name) =>
+        counts.set(name, (counts.get(name) || 0) + 1)
+      )
+    );
+  } catch (error: unknown) {
+    console.error("Error loading news entities for suggestions:", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return counts;
+}
+
+// Ranked suggestions from the registry (name and aliases) and from entities
+// seen in news. News names that resolve to a registry entity merge into it
+export async function suggestEntities(
+  query: string,
+  limit = MAX_SUGGESTIONS
+): Promise<Suggestion[]> {
+  const key = entityKey(query);
+  if (!key) return [];
+
+  const suggestions = new Map<string, Suggestion>();
+  const offer = (suggestion: Suggestion) => {
+    const id = suggestion.id || `news:${entityKey(suggestion.name)}`;
+    const existing = suggestions.get(id);
+    if (!existing || existing.score < suggestion.score) {
+      suggestions.set(id, suggestion);
+    }
+  };
+
+  listEntities().forEach((entity) => {
+    // Aliases count slightly less than the canonical name
+    const score = Math.max(
+      matchScore(entity.name, key),
+      ...entity.aliases.map((alias) => matchScore(alias, key) - 5)
+    );
+    if (score > 0) {
+      offer({
+        id: entity.id,
+        name: entity.name,
+        category: entity.category,
+        source: "registry",
+        score,
+      });
+    }
+  });
+
+  (await seenNewsEntities()).forEach((count, name) => {
+    const base = matchScore(name, key);
+    if (base <= 0) return;
+    const entity = resolveEntity(name);
+    // Registry entries rank first; frequently mentioned names rank higher
+    const score = base - 10 + Math.min(count, 9);
+    offer(
+      entity
+        ? {
+            id: entity.id,
+            name: entity.name,
+            category: entity.category,
+            source: "registry",
+            score: score + 10,
+          }
+        : { name, source: "news", score }
+    );
+  });
+
+  return Array.from(suggestions.values())
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
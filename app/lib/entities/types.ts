@@ -0,0 +1,11 @@
+import type { SubscriptionCategory } from "@/app/lib/subscriptions/categories";
+
+// A league, club, player or tournament we know by name. The id is stable;
+// the name is how it is displayed and stored in subscriptions
+export interface Entity {
+  id: string;
+  name: string;
+  category: SubscriptionCategory;
+  aliases: string[];
+  country?: string;
+}
@@ -0,0 +1,98 @@
+import fs from "fs";
+import path from "path";
+
+// A publisher feed to poll. Feeds are listed in a JSON file (NEWS_FEEDS_FILE,
+// feeds.json by default) as an array of these
+export interface FeedConfig {
+  id: string; // Stable name, e.g. "bbc-football"; items are kept per feed
+  url: string;
+  source?: string; // Publisher name; defaults to the feed's own title
+  entities?: string[]; // What every entry is about, e.g. for a club's own feed
+}
+
+const FEED_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+function isFeedConfig(value: unknown): value is FeedConfig {
+  if (!value || typeof value !== "object") return false;
+  const feed = value as Record<string, unknown>;
+  if (typeof feed.id !== "string" || !FEED_ID.test(feed.id)) return false;
+  if (typeof feed.url !== "string" || !/^https?:\/\//i.test(feed.url)) {
+    return false;
+  }
+  return (
+    (feed.source === undefined || typeof feed.source === "string") &&
+    (feed.entities === undefined ||
+      (Array.isArray(feed.entities) &&
+        feed.entities.every((entity) => typeof entity === "string")))
+  );
+}
+
+export function getFeedsFile(): string {
+  return path.resolve(
+    process.cwd(),
+    process.env.NEWS_FEEDS_FILE || "feeds.json"
+  );
+}
+
+// The configured feeds; none when the file is missing. Invalid entries are
+// skipped with a warning rather than disabling every feed
+export function getFeedConfigs(): FeedConfig[] {
+  const file = getFeedsFile();
+  if (!fs.existsSync(file)) return [];
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error: unknown) {
+    console.error("Error reading feed configuration:", {
+      message: error instanceof Error ? error.message : String(error),
+      file,
+    });
+    return [];
+  }
+  if (!Array.isArray(data)) {
+    console.error("Feed configuration must be an array:", { file });
+    return [];
+  }
+
+  const feeds: FeedConfig[] = [];
+  data.forEach((entry, index) => {
+    if (!isFeedConfig(entry)) {
+      console.error("Skipping invalid feed configuration entry:", {
+        file,
+        index,
+      });
+    } else if (feeds.some((feed) => feed.id === entry.id)) {
+      console.error("Skipping duplicate feed id:", { file, id: entry.id });
+    } else {
+      feeds.push(entry);
+    }
+  });
+  return feeds;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && !isNaN(value) && value > 0 ? value : fallback;
+}
+
+// How often each feed is fetched again
+export function getPollIntervalMs(): number {
+  return envNumber("NEWS_FEEDS_POLL_SECONDS", 900) * 1000;
+}
+
+export function getFetchTimeoutMs(): number {
+  return envNumber("NEWS_FEEDS_TIMEOUT_MS", 10000);
+}
+
+// Items kept across all feeds; the oldest go first
+export function getMaxStoredItems(): number {
+  return envNumber("NEWS_FEEDS_MAX_ITEMS", 500);
+}
+
+// Items a feed-backed /api/news response returns at most
+export function getResponseLimit(): number {
+  return envNumber("NEWS_FEEDS_LIMIT", 20);
+}
+
+export const MAX_FEED_BYTES = 2 * 1024 * 1024;
@@ -0,0 +1,366 @@
+import {
+  entityKey,
+  findEntitiesIn,
+  isSameEntity,
+  resolveEntity,
+} from "@/app/lib/entities/registry";
+import { newsItemId } from "@/app/lib/news/ids";
+import type { NewsQuery } from "@/app/lib/news/service";
+import { saveNewsItems } from "@/app/lib/news/store";
+import { NewsItem } from "@/app/lib/news/types";
+import { verifyUrl } from "@/app/lib/news/verify";
+import { MAX_EXCERPT_LENGTH, MAX_TITLE_LENGTH } from "@/app/lib/prompts/guard";
+import { DocumentSpec, getStorage } from "@/app/lib/storage";
+import {
+  FeedConfig,
+  getFeedConfigs,
+  getFetchTimeoutMs,
+  getMaxStoredItems,
+  getPollIntervalMs,
+  getResponseLimit,
+  MAX_FEED_BYTES,
+} from "./config";
+import { FeedEntry, parseFeed } from "./parser";
+
+// Polls the configured publisher feeds and keeps their entries as news items,
+// so /api/news can serve real headlines next to (or instead of) the model's
+
+export interface FeedStatus {
+  lastFetchedAt?: string;
+  lastError?: string; // From the most recent fetch, cleared on success
+  itemCount: number; // Entries in the most recent successful fetch
+  title?: string; // The feed's own title
+  // Conditional request headers, so unchanged feeds cost a 304
+  etag?: string;
+  lastModified?: string;
+}
+
+interface StoredFeedItem extends NewsItem {
+  feedId: string;
+  fetchedAt: string;
+}
+
+interface FeedStore {
+  status: Record<string, FeedStatus>;
+  items: Record<string, StoredFeedItem>;
+}
+
+const FEEDS_DOCUMENT: DocumentSpec<FeedStore> = {
+  name: "feeds",
+  validate: (data) => {
+    if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+    const store = data as Partial<FeedStore>;
+    return store.status &&
+      typeof store.status === "object" &&
+      store.items &&
+      typeof store.items === "object"
+      ? (store as FeedStore)
+      : null;
+  },
+  empty: () => ({ status: {}, items: {} }),
+};
+
+export interface FeedRefreshResult {
+  id: string;
+  items: number; // Entries kept from this fetch; 0 when unchanged or failed
+  notModified?: boolean;
+  error?: string;
+}
+
+function toDate(value: string | undefined, fallback: string): string {
+  const time = value ? Date.parse(value) : NaN;
+  return (isNaN(time) ? fallback : new Date(time).toISOString()).split("T")[0];
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength
+    ? `${value.slice(0, maxLength - 1).trimEnd()}…`
+    : value;
+}
+
+// A feed entry in the shape /api/news returns. Entries without a title or
+// link are dropped
+export function normalizeEntry(
+  entry: FeedEntry,
+  feed: FeedConfig,
+  feedTitle: string | undefined,
+  fetchedAt: string
+): StoredFeedItem | null {
+  if (!entry.title || !entry.link) return null;
+
+  let url: string;
+  try {
+    url = new URL(entry.link, feed.url).toString();
+  } catch {
+    return null;
+  }
+
+  const title = truncate(entry.title, MAX_TITLE_LENGTH);
+  const excerpt = entry.summary
+    ? truncate(entry.summary, MAX_EXCERPT_LENGTH)
+    : undefined;
+  const date = toDate(entry.published, fetchedAt);
+
+  // Entities the feed is about, the entry's categories that name known
+  // entities, and registry names in the title or excerpt
+  const entities: string[] = [];
+  const mention = (name: string) => {
+    if (!entities.some((other) => isSameEntity(other, name))) {
+      entities.push(resolveEntity(name)?.name || name);
+    }
+  };
+  (feed.entities || []).forEach(mention);
+  entry.categories
+    .filter((category) => resolveEntity(category))
+    .forEach(mention);
+  findEntitiesIn(`${title} ${excerpt || ""}`).forEach((entity) =>
+    mention(entity.name)
+  );
+
+  return {
+    id: newsItemId({ title, url, date }),
+    title,
+    date,
+    url,
+    source: feed.source || feedTitle || new URL(feed.url).hostname,
+    entities,
+    confidence: 1, // Published by the source rather than recalled by a model
+    ...verifyUrl(url),
+    feedId: feed.id,
+    excerpt,
+    fetchedAt,
+  };
+}
+
+// The response body as text, refusing feeds over MAX_FEED_BYTES. A declared
+// Content-Length is checked up front; otherwise the download is cut off as
+// soon as it passes the limit, so an oversized feed is never buffered whole
+async function readLimitedBody(response: Response): Promise<string> {
+  const tooLarge = () => new Error(`Feed larger than ${MAX_FEED_BYTES} bytes`);
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > MAX_FEED_BYTES) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > MAX_FEED_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Fetch one feed and store its entries. Throws on network, HTTP and parse
+// errors; refreshFeeds records those per feed
+async function fetchFeed(
+  feed: FeedConfig,
+  status: FeedStatus | undefined
+): Promise<FeedRefreshResult> {
+  const headers: Record<string, string> = {
+    Accept:
+      "application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8",
+  };
+  if (status?.etag) headers["If-None-Match"] = status.etag;
+  if (status?.lastModified) headers["If-Modified-Since"] = status.lastModified;
+
+  const response = await fetch(feed.url, {
+    headers,
+    signal: AbortSignal.timeout(getFetchTimeoutMs()),
+    cache: "no-store",
+  });
+  const fetchedAt = new Date().toISOString();
+  const storage = await getStorage();
+
+  if (response.status === 304) {
+    await storage.update(FEEDS_DOCUMENT, (store) => {
+      store.status[feed.id] = {
+        ...(store.status[feed.id] || { itemCount: 0 }),
+        lastFetchedAt: fetchedAt,
+        lastError: undefined,
+      };
+    });
+    return { id: feed.id, items: 0, notModified: true };
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const parsed = parseFeed(await readLimitedBody(response));
+  const items = parsed.entries
+    .map((entry) => normalizeEntry(entry, feed, parsed.title, fetchedAt))
+    .filter((item): item is StoredFeedItem => item !== null);
+
+  await storage.update(FEEDS_DOCUMENT, (store) => {
+    items.forEach((item) => {
+      store.items[item.id] = item;
+    });
+    store.status[feed.id] = {
+      lastFetchedAt: fetchedAt,
+      itemCount: items.length,
+      title: parsed.title,
+      etag: response.headers.get("etag") || undefined,
+      lastModified: response.headers.get("last-modified") || undefined,
+    };
+    pruneItems(store);
+  });
+
+  // Also keep them in the article store, so /news/[id] and summaries work
+  try {
+    await saveNewsItems(items.map(toNewsItem));
+  } catch (error: unknown) {
+    console.error("Error saving feed items:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+  return { id: feed.id, items: items.length };
+}
+
+function newestFirst(a: StoredFeedItem, b: StoredFeedItem): number {
+  return b.date.localeCompare(a.date) || b.fetchedAt.localeCompare(a.fetchedAt);
+}
+
+// Drop the oldest items beyond NEWS_FEEDS_MAX_ITEMS
+function pruneItems(store: FeedStore): void {
+  Object.values(store.items)
+    .sort(newestFirst)
+    .slice(getMaxStoredItems())
+    .forEach((item) => {
+      delete store.items[item.id];
+    });
+}
+
+function toNewsItem(item: StoredFeedItem): NewsItem {
+  const newsItem: NewsItem & { fetchedAt?: string } = { ...item };
+  delete newsItem.fetchedAt;
+  return newsItem;
+}
+
+// Kept on globalThis so concurrent requests (and dev hot reloads) share one
+// refresh instead of fetching every feed several times
+const globalForFeeds = globalThis as unknown as {
+  feedRefresh?: Promise<FeedRefreshResult[]> | null;
+  feedRefreshForced?: boolean;
+};
+
+// Fetch the feeds that are due (all of them with force). Failures are
+// recorded on the feed's status and never thrown
+export function refreshFeeds(
+  options: { force?: boolean } = {}
+): Promise<FeedRefreshResult[]> {
+  const inFlight = globalForFeeds.feedRefresh;
+  if (inFlight && (globalForFeeds.feedRefreshForced || !options.force)) {
+    return inFlight;
+  }
+  if (inFlight) {
+    // The running pass skips feeds that aren't due, so a forced one follows it
+    return inFlight.catch(() => []).then(() => refreshFeeds(options));
+  }
+
+  const run = async (): Promise<FeedRefreshResult[]> => {
+    const feeds = getFeedConfigs();
+    if (feeds.length === 0) return [];
+    const storage = await getStorage();
+    const { status } = await storage.read(FEEDS_DOCUMENT);
+    const due = feeds.filter((feed) => {
+      const last = status[feed.id]?.lastFetchedAt;
+      return (
+        options.force ||
+        !last ||
+        Date.now() - Date.parse(last) >= getPollIntervalMs()
+      );
+    });
+
+    return Promise.all(
+      due.map((feed) =>
+        fetchFeed(feed, status[feed.id]).catch(
+          async (error: unknown): Promise<FeedRefreshResult> => {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            console.error("Error fetching feed:", {
+              message,
+              feed: feed.id,
+              url: feed.url,
+            });
+            await storage.update(FEEDS_DOCUMENT, (store) => {
+              store.status[feed.id] = {
+                ...(store.status[feed.id] || { itemCount: 0 }),
+                lastFetchedAt: new Date().toISOString(),
+                lastError: message,
+              };
+            });
+            return { id: feed.id, items: 0, error: message };
+          }
+        )
+      )
+    );
+  };
+
+  const refresh = run().finally(() => {
+    globalForFeeds.feedRefresh = null;
+  });
+  globalForFeeds.feedRefresh = refresh;
+  globalForFeeds.feedRefreshForced = !!options.force;
+  return refresh;
+}
+
+// Each configured feed with what its last fetch found
+export async function getFeedStatus(): Promise<
+  (FeedConfig & { status: FeedStatus | null })[]
+> {
+  const storage = await getStorage();
+  const { status } = await storage.read(FEEDS_DOCUMENT);
+  return getFeedConfigs().map((feed) => ({
+    ...feed,
+    status: status[feed.id] || null,
+  }));
+}
+
+// Whether an item is about an entity: it lists it, or names it in the
+// title or excerpt
+export function mentionsEntity(item: NewsItem, entity: string): boolean {
+  if (item.entities.some((name) => isSameEntity(name, entity))) return true;
+  const key = entityKey(entity);
+  return (
+    !!key &&
+    ` ${entityKey(`${item.title} ${item.excerpt || ""}`)} `.includes(` ${key} `)
+  );
+}
+
+// Feed items answering a news query, newest first, from what is stored.
+// Feeds that are due are fetched in the background, so a request never waits
+// on a publisher; their entries show up on later requests. Fixtures aren't in
+// news feeds, so they never match
+export async function getFeedNews(query: NewsQuery): Promise<NewsItem[]> {
+  if (query.kind === "fixtures") return [];
+  const feeds = getFeedConfigs();
+  if (feeds.length === 0) return [];
+
+  refreshFeeds().catch((error: unknown) => {
+    console.error("Error refreshing feeds:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  });
+  const storage = await getStorage();
+  const { items } = await storage.read(FEEDS_DOCUMENT);
+  return Object.values(items)
+    .filter((item) => feeds.some((feed) => feed.id === item.feedId))
+    .filter(
+      (item) =>
+        query.kind === "latest" || mentionsEntity(item, query.variables.entity)
+    )
+    .sort(newestFirst)
+    .slice(0, getResponseLimit())
+    .map(toNewsItem);
+}
@@ -0,0 +1,165 @@
+// Minimal RSS 2.0 / RSS 1.0 (RDF) / Atom reader. Publisher feeds are simple
+// enough that a tag scanner covers them, and it keeps an XML parser out of
+// the dependencies
+
+export interface FeedEntry {
+  title: string;
+  link: string;
+  published?: string; // As written in the feed; parsed by the caller
+  summary?: string; // Plain text, tags stripped
+  categories: string[];
+}
+
+export interface ParsedFeed {
+  format: "rss" | "atom";
+  title?: string; // The channel or feed title, usually the publisher
+  entries: FeedEntry[];
+}
+
+// Raised when a document isn't a feed this reader understands
+export class FeedParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedParseError";
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (match, entity: string) => {
+      if (entity[0] === "#") {
+        const code =
+          entity[1].toLowerCase() === "x"
+            ? parseInt(entity.slice(2), 16)
+            : Number(entity.slice(1));
+        return code > 0 && code <= 0x10ffff
+          ? String.fromCodePoint(code)
+          : match;
+      }
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    }
+  );
+}
+
+// Element content as plain text. CDATA holds raw HTML; otherwise the HTML is
+// entity-encoded, so decode first, then strip tags, then decode what the
+// HTML itself escaped
+function toText(content: string): string {
+  const cdata = content.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  const html = cdata ? cdata[1] : decodeEntities(content);
+  return decodeEntities(html.replace(/<[^>]*>/g, " "))
+    .replace(/\s+/g, " ")
+    .replace(/ ([.,;:!?])/g, "$1") // "<b>derby</b>." shouldn't become "derby ."
+    .trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Text of the first child element with one of the names. Names may carry a
+// namespace prefix ("dc:date", "content:encoded")
+function childText(block: string, names: string[]): string | undefined {
+  for (const name of names) {
+    const tag = escapeRegExp(name);
+    const match = block.match(
+      new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i")
+    );
+    if (match) {
+      const text = toText(match[1]);
+      if (text) return text;
+    }
+  }
+  return undefined;
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(
+    new RegExp(`\\s${escapeRegExp(name)}\\s*=\\s*("([^"]*)"|'([^']*)')`, "i")
+  );
+  return match ? decodeEntities(match[2] ?? match[3]).trim() : undefined;
+}
+
+function blocks(xml: string, name: string): string[] {
+  return (
+    xml.match(new RegExp(`<${name}(?:\\s[^>]*)?>[\\s\\S]*?</${name}>`, "gi")) ||
+    []
+  );
+}
+
+// Atom links are attributes; the article is the "alternate" one (the default
+// when rel is missing)
+function atomLink(entry: string): string {
+  const links = entry.match(/<link\b[^>]*>/gi) || [];
+  const alternate =
+    links.find((link) => {
+      const rel = readAttribute(link, "rel");
+      return !rel || rel === "alternate";
+    }) || links[0];
+  return (alternate && readAttribute(alternate, "href")) || "";
+}
+
+function parseRssItem(item: string): FeedEntry {
+  const guid = item.match(/<guid(\s[^>]*)?>([\s\S]*?)<\/guid>/i);
+  const guidLink =
+    guid && readAttribute(guid[1] || "", "isPermaLink") !== "false"
+      ? toText(guid[2])
+      : "";
+  return {
+    title: childText(item, ["title"]) || "",
+    link: childText(item, ["link"]) || guidLink,
+    published: childText(item, ["pubDate", "dc:date"]),
+    summary: childText(item, ["description", "content:encoded"]),
+    categories: (
+      item.match(/<category(?:\s[^>]*)?>[\s\S]*?<\/category>/gi) || []
+    )
+      .map((category) =>
+        toText(category.replace(/^<[^>]*>|<\/category>$/gi, ""))
+      )
+      .filter(Boolean),
+  };
+}
+
+function parseAtomEntry(entry: string): FeedEntry {
+  return {
+    title: childText(entry, ["title"]) || "",
+    link: atomLink(entry),
+    published: childText(entry, ["published", "updated"]),
+    summary: childText(entry, ["summary", "content"]),
+    categories: (entry.match(/<category\b[^>]*>/gi) || [])
+      .map((category) => readAttribute(category, "term") || "")
+      .filter(Boolean),
+  };
+}
+
+export function parseFeed(xml: string): ParsedFeed {
+  const body = xml.replace(/<!--[\s\S]*?-->/g, "");
+
+  if (/<feed[\s>]/i.test(body)) {
+    const header = body.split(/<entry[\s>]/i)[0];
+    return {
+      format: "atom",
+      title: childText(header, ["title"]),
+      entries: blocks(body, "entry").map(parseAtomEntry),
+    };
+  }
+  if (/<(rss|rdf:RDF)[\s>]/i.test(body)) {
+    const header = body.split(/<item[\s>]/i)[0];
+    return {
+      format: "rss",
+      title: childText(header, ["title"]),
+      entries: blocks(body, "item").map(parseRssItem),
+    };
+  }
+  throw new FeedParseError("Not an RSS or Atom feed");
+}
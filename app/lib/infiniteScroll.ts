@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+// Call loadMore whenever the element given the returned ref (a marker below
+// a list) scrolls into view. Pass enabled = false while a page is loading or
+// when there is nothing more; turning it back on checks again, so a short
+// page that leaves the marker in view loads the next one too
+export function useInfiniteScroll<T extends Element>(
+  loadMore: () => void,
+  enabled: boolean
+) {
+  const ref = useRef<T>(null);
+  const callback = useRef(loadMore);
+
+  useEffect(() => {
+    callback.current = loadMore;
+  }, [loadMore]);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!enabled || !element) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) callback.current();
+      },
+      { rootMargin: "200px" } // Start loading a little before the end
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return ref;
+}
@@ -0,0 +1,35 @@
+import { LlmRoute, ProviderName } from "./types";
+
+// Default model per provider, used when no LLM_MODEL / per-route override is set
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  xai: "grok-beta",
+  openai: "gpt-4o-mini",
+  local: "llama3.1",
+  mock: "mock",
+};
+
+const PROVIDER_NAMES: ProviderName[] = ["xai", "openai", "local", "mock"];
+
+// LLM_PROVIDER selects the vendor; xAI stays the default so existing setups keep working
+export function getProviderName(): ProviderName {
+  const configured = (process.env.LLM_PROVIDER || "xai").toLowerCase();
+  if (!PROVIDER_NAMES.includes(configured as ProviderName)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${configured}" (expected one of ${PROVIDER_NAMES.join(
+        ", "
+      )})`
+    );
+  }
+  return configured as ProviderName;
+}
+
+// Per-route override (LLM_NEWS_MODEL, LLM_SUMMARY_MODEL) > LLM_MODEL > provider default
+export function getModelForRoute(route: LlmRoute): string {
+  const routeOverride =
+    route === "news"
+      ? process.env.LLM_NEWS_MODEL
+      : process.env.LLM_SUMMARY_MODEL;
+  return (
+    routeOverride || process.env.LLM_MODEL || DEFAULT_MODELS[getProviderName()]
+  );
+}
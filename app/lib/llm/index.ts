@@ -0,0 +1,65 @@
+import { getProviderName } from "./config";
+import { createMockProvider } from "./providers/mock";
+import { createOpenAICompatibleProvider } from "./providers/openaiCompatible";
+import {
+  createRecordingProvider,
+  createReplayProvider,
+  getFixturesDir,
+  getRecordMode,
+} from "./recording";
+import { createResilientProvider } from "./resilience";
+import { LlmProvider } from "./types";
+
+export { getModelForRoute } from "./config";
+export * from "./types";
+
+// Reuse one provider per process instead of building a client on every request
+let cachedProvider: LlmProvider | null = null;
+
+function createProvider(): LlmProvider {
+  switch (getProviderName()) {
+    case "xai":
+      return createOpenAICompatibleProvider({
+        name: "xai",
+        label: "xAI",
+        apiKey: process.env.XAI_API_KEY,
+        baseURL: "https://api.x.ai/v1",
+      });
+    case "openai":
+      return createOpenAICompatibleProvider({
+        name: "openai",
+        label: "OpenAI",
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+    case "local":
+      return createOpenAICompatibleProvider({
+        name: "local",
+        label: "local model server",
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1", // Ollama's default
+      });
+    case "mock":
+      return createMockProvider();
+  }
+}
+
+export function getLlmProvider(): LlmProvider {
+  if (!cachedProvider) {
+    const mode = getRecordMode();
+    if (mode === "replay") {
+      // Replay never builds the real client, so no network or API key is needed
+      cachedProvider = createReplayProvider(
+        getProviderName(),
+        getFixturesDir()
+      );
+    } else if (mode === "record") {
+      cachedProvider = createRecordingProvider(
+        createResilientProvider(createProvider()),
+        getFixturesDir()
+      );
+    } else {
+      cachedProvider = createResilientProvider(createProvider());
+    }
+  }
+  return cachedProvider;
+}
@@ -0,0 +1,48 @@
+import { chunkText } from "../streaming";
+import { CompletionRequest, CompletionResult, LlmProvider } from "../types";
+
+// In-process provider for offline development; answers are canned but shaped
+// like real model output so the route handlers run their normal parsing
+export function createMockProvider(): LlmProvider {
+  const provider: LlmProvider = {
+    name: "mock",
+    label: "mock",
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const today = new Date().toISOString().split("T")[0];
+      if (request.purpose === "summary") {
+        return {
+          content:
+            "This is a mock summary of a football news item, generated offline. It stands in for a real model response so the app can run without network access or an API key.",
+          model: request.model,
+        };
+      }
+
+      const headlines = [
+        "Mock headline one",
+        "Mock headline two",
+        "Mock headline three",
+      ];
+      return {
+        content: JSON.stringify({
+          items: headlines.map((title, index) => ({
+            title,
+            date: today,
+            url: `https://example.com/mock-${index + 1}`,
+            source: "Mock Sports",
+            entities: [],
+            confidence: 0.5,
+          })),
+        }),
+        model: request.model,
+      };
+    },
+    async *stream(
+      request: CompletionRequest,
+      signal?: AbortSignal
+    ): AsyncGenerator<string> {
+      const { content } = await provider.complete(request);
+      yield* chunkText(content, signal);
+    },
+  };
+  return provider;
+}
@@ -0,0 +1,106 @@
+import OpenAI from "openai";
+import {
+  CompletionRequest,
+  CompletionResult,
+  LlmProvider,
+  LlmProviderError,
+  ProviderName,
+} from "../types";
+
+interface OpenAICompatibleOptions {
+  name: ProviderName;
+  label: string;
+  baseURL?: string; // Omit for api.openai.com
+  apiKey?: string;
+}
+
+// Retry-After may be given in milliseconds (OpenAI's retry-after-ms), in
+// seconds, or as an HTTP date
+function parseRetryAfter(
+  headers: Record<string, string | null | undefined> | undefined
+): number | undefined {
+  const ms = Number(headers?.["retry-after-ms"]);
+  if (!isNaN(ms) && ms > 0) return ms;
+
+  const value = headers?.["retry-after"];
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// xAI, OpenAI and local servers (Ollama, llama.cpp) all speak the OpenAI
+// chat completions API, so one provider covers them with a different baseURL
+export function createOpenAICompatibleProvider(
+  options: OpenAICompatibleOptions
+): LlmProvider {
+  const client = new OpenAI({
+    // Local servers ignore the key but the SDK refuses to start without one
+    apiKey: options.apiKey || "not-needed",
+    baseURL: options.baseURL,
+    maxRetries: 0, // Retries and backoff are handled by the resilience wrapper
+  });
+
+  const toProviderError = (error: unknown): unknown =>
+    error instanceof OpenAI.APIError &&
+    !(error instanceof OpenAI.APIUserAbortError)
+      ? new LlmProviderError(
+          error.message || `Request to ${options.label} failed`,
+          error.status,
+          parseRetryAfter(error.headers)
+        )
+      : error;
+
+  return {
+    name: options.name,
+    label: options.label,
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      try {
+        const completion = await client.chat.completions.create({
+          model: request.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          response_format: request.responseFormat
+            ? {
+                type: "json_schema",
+                json_schema: {
+                  name: request.responseFormat.name,
+                  schema: request.responseFormat.schema,
+                  strict: true,
+                },
+              }
+            : undefined,
+        });
+        return {
+          content: completion.choices[0]?.message?.content || "",
+          model: completion.model || request.model,
+        };
+      } catch (error: unknown) {
+        throw toProviderError(error);
+      }
+    },
+    async *stream(
+      request: CompletionRequest,
+      signal?: AbortSignal
+    ): AsyncGenerator<string> {
+      try {
+        const stream = await client.chat.completions.create(
+          {
+            model: request.model,
+            messages: request.messages,
+            max_tokens: request.maxTokens,
+            stream: true,
+          },
+          { signal }
+        );
+        for await (const chunk of stream) {
+          const token = chunk.choices[0]?.delta?.content;
+          if (token) yield token;
+        }
+      } catch (error: unknown) {
+        throw toProviderError(error);
+      }
+    },
+  };
+}
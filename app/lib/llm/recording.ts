@@ -0,0 +1,140 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import {
+  CompletionRequest,
+  CompletionResult,
+  LlmProvider,
+  LlmProviderError,
+} from "./types";
+import { chunkText } from "./streaming";
+
+// off: talk to the provider directly
+// record: talk to the provider and save every request/response pair as a fixture
+// replay: serve saved fixtures only, never touching the network
+export type RecordMode = "off" | "record" | "replay";
+
+interface Fixture {
+  request: Omit<CompletionRequest, "model">;
+  response: CompletionResult;
+  recordedAt: string;
+}
+
+export function getRecordMode(): RecordMode {
+  const mode = (process.env.LLM_RECORD_MODE || "off").toLowerCase();
+  if (mode !== "off" && mode !== "record" && mode !== "replay") {
+    throw new Error(
+      `Unknown LLM_RECORD_MODE "${mode}" (expected off, record or replay)`
+    );
+  }
+  return mode;
+}
+
+export function getFixturesDir(): string {
+  return path.resolve(
+    process.cwd(),
+    process.env.LLM_FIXTURES_DIR || path.join("fixtures", "llm")
+  );
+}
+
+// The model is left out of the key so fixtures recorded against one vendor
+// replay no matter which provider or model is configured
+function fixtureKey(request: CompletionRequest): Fixture["request"] {
+  return {
+    purpose: request.purpose,
+    messages: request.messages,
+    maxTokens: request.maxTokens,
+    responseFormat: request.responseFormat,
+  };
+}
+
+function fixturePath(dir: string, request: CompletionRequest): string {
+  const hash = crypto
+    .createHash("sha256")
+    .update(JSON.stringify(fixtureKey(request)))
+    .digest("hex")
+    .slice(0, 16);
+  return path.join(dir, request.purpose, `${hash}.json`);
+}
+
+function writeFixture(
+  dir: string,
+  request: CompletionRequest,
+  response: CompletionResult
+): void {
+  const file = fixturePath(dir, request);
+  const fixture: Fixture = {
+    request: fixtureKey(request),
+    response,
+    recordedAt: new Date().toISOString(),
+  };
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+  } catch (error: unknown) {
+    // A failed recording shouldn't fail the request that produced it
+    console.error("Error recording LLM fixture:", {
+      message: error instanceof Error ? error.message : String(error),
+      file,
+    });
+  }
+}
+
+function readFixture(dir: string, request: CompletionRequest): Fixture {
+  const file = fixturePath(dir, request);
+  if (!fs.existsSync(file)) {
+    throw new LlmProviderError(
+      `No recorded fixture for this ${request.purpose} request (expected ${path.relative(
+        process.cwd(),
+        file
+      )}); run once with LLM_RECORD_MODE=record to capture it`,
+      404
+    );
+  }
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+}
+
+export function createRecordingProvider(
+  provider: LlmProvider,
+  dir: string
+): LlmProvider {
+  return {
+    name: provider.name,
+    label: provider.label,
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const response = await provider.complete(request);
+      writeFixture(dir, request, response);
+      return response;
+    },
+    async *stream(
+      request: CompletionRequest,
+      signal?: AbortSignal
+    ): AsyncGenerator<string> {
+      let content = "";
+      for await (const token of provider.stream(request, signal)) {
+        content += token;
+        yield token;
+      }
+      // Streams and plain completions share a fixture, so either can replay it
+      if (!signal?.aborted) {
+        writeFixture(dir, request, { content, model: request.model });
+      }
+    },
+  };
+}
+
+export function createReplayProvider(label: string, dir: string): LlmProvider {
+  return {
+    name: "mock",
+    label: `${label} (replay)`,
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      return readFixture(dir, request).response;
+    },
+    async *stream(
+      request: CompletionRequest,
+      signal?: AbortSignal
+    ): AsyncGenerator<string> {
+      yield* chunkText(readFixture(dir, request).response.content, signal);
+    },
+  };
+}
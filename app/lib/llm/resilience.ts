@@ -0,0 +1,200 @@
+import {
+  CompletionRequest,
+  CompletionResult,
+  LlmProvider,
+  LlmProviderError,
+} from "./types";
+
+interface ResilienceOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  breakerThreshold: number; // Consecutive failures that open the circuit
+  breakerCooldownMs: number; // How long the circuit stays open before a trial call
+}
+
+interface BreakerState {
+  failures: number;
+  openedAt: number | null;
+  trialInFlight: boolean; // A half-open trial call is running
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && !isNaN(value) && value >= 0 ? value : fallback;
+}
+
+export function getResilienceOptions(): ResilienceOptions {
+  return {
+    maxRetries: envNumber("LLM_MAX_RETRIES", 2),
+    baseDelayMs: envNumber("LLM_RETRY_BASE_MS", 500),
+    maxDelayMs: envNumber("LLM_RETRY_MAX_MS", 10000),
+    breakerThreshold: envNumber("LLM_BREAKER_THRESHOLD", 5),
+    breakerCooldownMs: envNumber("LLM_BREAKER_COOLDOWN_MS", 30000),
+  };
+}
+
+// Kept on globalThis so every route shares one breaker per provider
+const globalForBreaker = globalThis as unknown as {
+  llmBreakers?: Map<string, BreakerState>;
+};
+const breakers = (globalForBreaker.llmBreakers ??= new Map());
+
+// Rate limits, timeouts, server errors and network failures (no status) are
+// worth retrying; anything else (bad key, bad request) will fail again
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof LlmProviderError)) return false;
+  const { status } = error;
+  return (
+    status === undefined ||
+    status === 408 ||
+    status === 409 ||
+    status === 429 ||
+    status >= 500
+  );
+}
+
+// Exponential backoff with full jitter, but never sooner than Retry-After asks.
+// Undefined when Retry-After is longer than maxDelayMs: waiting that long
+// holds the request open, and retrying sooner would be rate limited again
+function retryDelay(
+  attempt: number,
+  error: unknown,
+  options: ResilienceOptions
+): number | undefined {
+  const backoff = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * Math.pow(2, attempt)
+  );
+  const jittered = Math.random() * backoff;
+  const retryAfter =
+    error instanceof LlmProviderError ? error.retryAfterMs : undefined;
+  if (retryAfter === undefined) return jittered;
+  return retryAfter <= options.maxDelayMs
+    ? Math.max(jittered, retryAfter)
+    : undefined;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+// Wraps a provider with retries and a circuit breaker. Once the provider has
+// failed breakerThreshold times in a row, calls fail fast with a 503 until
+// the cooldown passes; then one trial call decides whether to close it again
+export function createResilientProvider(
+  provider: LlmProvider,
+  options: ResilienceOptions = getResilienceOptions()
+): LlmProvider {
+  const breaker: BreakerState = breakers.get(provider.name) || {
+    failures: 0,
+    openedAt: null,
+    trialInFlight: false,
+  };
+  breakers.set(provider.name, breaker);
+
+  const checkCircuit = () => {
+    if (breaker.openedAt === null) return;
+    const remaining = breaker.openedAt + options.breakerCooldownMs - Date.now();
+    if (remaining > 0 || breaker.trialInFlight) {
+      throw new LlmProviderError(
+        `${provider.label} is temporarily unavailable after repeated failures`,
+        503,
+        Math.max(remaining, 0)
+      );
+    }
+    // Half-open: this call is the single trial
+    breaker.trialInFlight = true;
+  };
+
+  const recordSuccess = () => {
+    breaker.failures = 0;
+    breaker.openedAt = null;
+    breaker.trialInFlight = false;
+  };
+
+  const recordFailure = (error: unknown) => {
+    const wasTrial = breaker.trialInFlight;
+    breaker.trialInFlight = false;
+    if (!isRetryable(error)) return; // Client errors say nothing about provider health
+    breaker.failures++;
+    if (wasTrial || breaker.failures >= options.breakerThreshold) {
+      if (!wasTrial) {
+        console.error(`Circuit opened for ${provider.label}:`, {
+          failures: breaker.failures,
+          cooldownMs: options.breakerCooldownMs,
+        });
+      }
+      breaker.openedAt = Date.now(); // A failed trial restarts the cooldown
+    }
+  };
+
+  return {
+    name: provider.name,
+    label: provider.label,
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      for (let attempt = 0; ; attempt++) {
+        checkCircuit();
+        try {
+          const result = await provider.complete(request);
+          recordSuccess();
+          return result;
+        } catch (error: unknown) {
+          recordFailure(error);
+          const delay = retryDelay(attempt, error, options);
+          if (
+            !isRetryable(error) ||
+            attempt >= options.maxRetries ||
+            delay === undefined
+          ) {
+            throw error;
+          }
+          await sleep(delay);
+        } finally {
+          breaker.trialInFlight = false; // Never leave a trial marked as running
+        }
+      }
+    },
+    // Streams are only retried until the first token arrives; after that a
+    // retry would repeat text the client already has
+    async *stream(
+      request: CompletionRequest,
+      signal?: AbortSignal
+    ): AsyncGenerator<string> {
+      for (let attempt = 0; ; attempt++) {
+        checkCircuit();
+        let started = false;
+        try {
+          for await (const token of provider.stream(request, signal)) {
+            started = true;
+            yield token;
+          }
+          recordSuccess();
+          return;
+        } catch (error: unknown) {
+          if (signal?.aborted) throw error;
+          recordFailure(error);
+          const delay = retryDelay(attempt, error, options);
+          if (
+            started ||
+            !isRetryable(error) ||
+            attempt >= options.maxRetries ||
+            delay === undefined
+          ) {
+            throw error;
+          }
+          await sleep(delay, signal);
+        } finally {
+          // Also reached when the consumer stops reading or the client aborts
+          breaker.trialInFlight = false;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,14 @@
+// Emit already-complete text word by word with a short pause, so the mock and
+// replay providers stream like a real model does
+export async function* chunkText(
+  content: string,
+  signal?: AbortSignal,
+  delayMs = 30
+): AsyncGenerator<string> {
+  const words = content.match(/\S+\s*/g) || [];
+  for (let i = 0; i < words.length; i++) {
+    if (signal?.aborted) return;
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    yield words[i];
+  }
+}
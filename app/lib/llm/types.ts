@@ -0,0 +1,56 @@
+// Shared types for the LLM provider layer
+
+// Which vendor (or stand-in) serves completions
+export type ProviderName = "xai" | "openai" | "local" | "mock";
+
+// Route handlers that talk to a model; each can be pointed at its own model
+export type LlmRoute = "news" | "summary";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// Asks the provider to constrain output to a JSON schema (OpenAI "json_schema" format)
+export interface JsonSchemaResponseFormat {
+  type: "json_schema";
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  responseFormat?: JsonSchemaResponseFormat;
+  purpose: LlmRoute; // Lets the mock provider (and logs) know what the call is for
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+}
+
+export interface LlmProvider {
+  name: ProviderName;
+  label: string; // Human-readable vendor name used in error messages
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Yields the completion text as it is generated; aborting the signal stops the upstream request
+  stream(
+    request: CompletionRequest,
+    signal?: AbortSignal
+  ): AsyncIterable<string>;
+}
+
+// Error raised by providers so route handlers don't depend on a vendor SDK
+export class LlmProviderError extends Error {
+  status?: number;
+  retryAfterMs?: number; // From the vendor's Retry-After header, when it sent one
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "LlmProviderError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
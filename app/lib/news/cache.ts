@@ -0,0 +1,200 @@
+import { NewsItem } from "./types";
+
+// HIT: fresh entry; STALE: expired but served while a refresh runs; MISS: generated now;
+// FALLBACK: generating failed, so the last good result is served whatever its age
+export type CacheStatus = "HIT" | "STALE" | "MISS" | "FALLBACK";
+
+// Identifies a cache entry; kind and subject let admins purge across prompt versions
+export interface CacheKey {
+  key: string;
+  kind: string;
+  subject: string; // Normalized query the entry answers, "" for kinds without one
+}
+
+export interface CacheEntry extends CacheKey {
+  items: NewsItem[];
+  storedAt: number;
+  ttlMs: number; // How long the entry is fresh
+  staleMs: number; // How long after that it may still be served stale
+}
+
+export interface CachedResult {
+  items: NewsItem[];
+  status: CacheStatus;
+  ageSeconds: number;
+}
+
+// Kept on globalThis so every route module (and dev hot reloads) share one cache
+const globalForCache = globalThis as unknown as {
+  newsCache?: Map<string, CacheEntry>;
+  newsCacheInFlight?: Map<string, Promise<NewsItem[]>>;
+};
+const entries = (globalForCache.newsCache ??= new Map());
+const inFlight = (globalForCache.newsCacheInFlight ??= new Map());
+
+// Default freshness per query kind in seconds, overridable with
+// NEWS_CACHE_TTL_<KIND> (e.g. NEWS_CACHE_TTL_LATEST=300)
+const DEFAULT_TTL_SECONDS: Record<string, number> = {
+  latest: 600,
+  fixtures: 3600,
+  "entity-news": 900,
+};
+
+function envSeconds(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && !isNaN(value) && value >= 0 ? value : fallback;
+}
+
+function ttlMsFor(kind: string): number {
+  return (
+    envSeconds(
+      `NEWS_CACHE_TTL_${kind.toUpperCase().replace(/-/g, "_")}`,
+      DEFAULT_TTL_SECONDS[kind] ?? 900
+    ) * 1000
+  );
+}
+
+function staleMs(): number {
+  return envSeconds("NEWS_CACHE_STALE_SECONDS", 3600) * 1000;
+}
+
+// Run load once per key even when several requests miss at the same time
+function loadOnce(
+  cacheKey: CacheKey,
+  load: () => Promise<NewsItem[]>
+): Promise<NewsItem[]> {
+  const { key, kind } = cacheKey;
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const promise = load()
+    .then((items) => {
+      entries.set(key, {
+        ...cacheKey,
+        items,
+        storedAt: Date.now(),
+        ttlMs: ttlMsFor(kind),
+        staleMs: staleMs(),
+      });
+      return items;
+    })
+    .finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+}
+
+// Serve fresh entries directly, serve stale ones while refreshing in the
+// background, and only wait on load when nothing usable is cached
+export async function getOrLoad(
+  cacheKey: CacheKey,
+  load: () => Promise<NewsItem[]>
+): Promise<CachedResult> {
+  const { key } = cacheKey;
+  const entry = entries.get(key);
+  const now = Date.now();
+
+  if (entry) {
+    const age = now - entry.storedAt;
+    const ageSeconds = Math.floor(age / 1000);
+    if (age < entry.ttlMs) {
+      return { items: entry.items, status: "HIT", ageSeconds };
+    }
+    if (age < entry.ttlMs + entry.staleMs) {
+      loadOnce(cacheKey, load).catch((error: unknown) => {
+        console.error("Error revalidating cached news:", {
+          message: error instanceof Error ? error.message : String(error),
+          key,
+        });
+      });
+      return { items: entry.items, status: "STALE", ageSeconds };
+    }
+  }
+
+  try {
+    const items = await loadOnce(cacheKey, load);
+    return { items, status: "MISS", ageSeconds: 0 };
+  } catch (error: unknown) {
+    // Expired entries are kept around for exactly this: degraded mode
+    if (!entry) throw error;
+    console.error("Serving last good news after a failed refresh:", {
+      message: error instanceof Error ? error.message : String(error),
+      key,
+    });
+    return {
+      items: entry.items,
+      status: "FALLBACK",
+      ageSeconds: Math.floor((now - entry.storedAt) / 1000),
+    };
+  }
+}
+
+// Load a key now, even if it is fresh; used by the refresh worker. Shares a
+// load that is already running
+export function refreshCacheEntry(
+  cacheKey: CacheKey,
+  load: () => Promise<NewsItem[]>
+): Promise<NewsItem[]> {
+  return loadOnce(cacheKey, load);
+}
+
+export function hasCacheEntry(key: string): boolean {
+  return entries.has(key);
+}
+
+// Add items loaded elsewhere (e.g. prefetched by another process) with
+// their original age, unless a newer entry is already cached
+export function seedCache(
+  cacheKey: CacheKey,
+  items: NewsItem[],
+  storedAt: number
+): void {
+  const existing = entries.get(cacheKey.key);
+  if (existing && existing.storedAt >= storedAt) return;
+  entries.set(cacheKey.key, {
+    ...cacheKey,
+    items,
+    storedAt,
+    ttlMs: ttlMsFor(cacheKey.kind),
+    staleMs: staleMs(),
+  });
+}
+
+export function listCacheEntries(): (Omit<CacheEntry, "items"> & {
+  itemCount: number;
+  ageSeconds: number;
+})[] {
+  const now = Date.now();
+  return Array.from(entries.values()).map(({ items, ...entry }) => ({
+    ...entry,
+    itemCount: items.length,
+    ageSeconds: Math.floor((now - entry.storedAt) / 1000),
+  }));
+}
+
+// Which entries a purge removes: a kind, one subject of it, or everything
+export interface PurgeFilter {
+  kind?: string;
+  subject?: string;
+}
+
+export function matchesPurgeFilter(
+  cacheKey: CacheKey,
+  filter: PurgeFilter
+): boolean {
+  return (
+    (!filter.kind || cacheKey.kind === filter.kind) &&
+    (filter.subject === undefined || cacheKey.subject === filter.subject)
+  );
+}
+
+// Remove entries matching the filter (all entries when none is given); returns how many went
+export function purgeCache(filter: PurgeFilter = {}): number {
+  let removed = 0;
+  Array.from(entries.values()).forEach((entry) => {
+    if (matchesPurgeFilter(entry, filter)) {
+      entries.delete(entry.key);
+      removed++;
+    }
+  });
+  return removed;
+}
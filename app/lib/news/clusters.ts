@@ -0,0 +1,217 @@
+import {
+  findEntitiesIn,
+  isSameEntity,
+  resolveEntity,
+} from "@/app/lib/entities/registry";
+import { normalizeText, normalizeUrl } from "./normalize";
+import { NewsItem } from "./types";
+
+// Groups reports of the same story, e.g. "Fenerbahce win Istanbul derby"
+// from a search for the club and "Fenerbahçe beat Galatasaray in Istanbul
+// derby" from one for the league. Titles are compared as sets of normalized
+// words; items that share an entity need less overlap. Names alone don't make
+// a story: "Arsenal injury news" and "Arsenal transfer news" are two
+
+// Title similarity (shared words over all words) that makes two items one
+// story on its own, and with a shared entity
+const SAME_STORY_SIMILARITY = 0.6;
+const SAME_STORY_SIMILARITY_WITH_ENTITY = 0.35;
+// Shared title words that aren't part of an entity's name, needed on top of
+// the similarity, without and with a shared entity
+const MIN_SHARED_TOPIC_WORDS = 1;
+const MIN_SHARED_TOPIC_WORDS_WITH_ENTITY = 2;
+// Reports of one story are dated at most this far apart
+const MAX_STORY_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words that say nothing about which story a headline is, including the
+// generic ones publishers put on every kind of story
+const STOPWORDS = new Set([
+  "a",
+  "after",
+  "an",
+  "and",
+  "as",
+  "at",
+  "by",
+  "for",
+  "from",
+  "in",
+  "is",
+  "latest",
+  "live",
+  "match",
+  "news",
+  "of",
+  "on",
+  "over",
+  "preview",
+  "report",
+  "the",
+  "to",
+  "update",
+  "v",
+  "vs",
+  "with",
+]);
+
+interface Report<T> {
+  item: T;
+  words: Set<string>; // Title words
+  topicWords: Set<string>; // Title words that aren't part of an entity's name
+  index: number; // Position in the list
+}
+
+function titleWords(title: string): Set<string> {
+  return new Set(
+    normalizeText(title)
+      .split(" ")
+      .filter((word) => word && !STOPWORDS.has(word))
+  );
+}
+
+// Words of the names (and aliases) of the entities an item lists or its
+// title mentions
+function entityWords(item: NewsItem): Set<string> {
+  const names: string[] = [];
+  item.entities.forEach((name) => {
+    const entity = resolveEntity(name);
+    names.push(name, ...(entity ? [entity.name, ...entity.aliases] : []));
+  });
+  findEntitiesIn(item.title).forEach((entity) =>
+    names.push(entity.name, ...entity.aliases)
+  );
+  return new Set(
+    names.flatMap((name) => normalizeText(name).split(" ")).filter(Boolean)
+  );
+}
+
+function toReport<T extends NewsItem>(item: T, index: number): Report<T> {
+  const words = titleWords(item.title);
+  const names = entityWords(item);
+  return {
+    item,
+    words,
+    topicWords: new Set(Array.from(words).filter((word) => !names.has(word))),
+    index,
+  };
+}
+
+function sharedCount(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared++;
+  });
+  return shared;
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = sharedCount(a, b);
+  return shared / (a.size + b.size - shared);
+}
+
+function sharesEntity(a: NewsItem, b: NewsItem): boolean {
+  return a.entities.some((name) =>
+    b.entities.some((other) => isSameEntity(name, other))
+  );
+}
+
+function daysApart(a: NewsItem, b: NewsItem): number {
+  const apart = Math.abs(Date.parse(a.date) - Date.parse(b.date)) / DAY_MS;
+  return isNaN(apart) ? Infinity : apart;
+}
+
+function isSameStory(a: Report<NewsItem>, b: Report<NewsItem>): boolean {
+  // Placeholder links are shared by unrelated items
+  const hasLink = (item: NewsItem) =>
+    item.urlStatus !== "placeholder" && item.urlStatus !== "malformed";
+  if (
+    hasLink(a.item) &&
+    hasLink(b.item) &&
+    normalizeUrl(a.item.url) === normalizeUrl(b.item.url)
+  ) {
+    return true;
+  }
+  if (daysApart(a.item, b.item) > MAX_STORY_DAYS) return false;
+  const score = similarity(a.words, b.words);
+  const topic = sharedCount(a.topicWords, b.topicWords);
+  return (
+    (score >= SAME_STORY_SIMILARITY && topic >= MIN_SHARED_TOPIC_WORDS) ||
+    (score >= SAME_STORY_SIMILARITY_WITH_ENTITY &&
+      topic >= MIN_SHARED_TOPIC_WORDS_WITH_ENTITY &&
+      sharesEntity(a.item, b.item))
+  );
+}
+
+// One entry per story, in list order: the story's first item and the other
+// reports of it. An item matching reports of several stories joins them
+// into one, so the order items arrive in doesn't change the result
+export function clusterStories<T extends NewsItem>(
+  items: T[]
+): { first: T; related: T[] }[] {
+  let stories: Report<T>[][] = [];
+  items.forEach((item, index) => {
+    const report = toReport(item, index);
+    const matching = stories.filter((story) =>
+      story.some((other) => isSameStory(report, other))
+    );
+    if (matching.length === 0) {
+      stories.push([report]);
+      return;
+    }
+    // Stories are kept in order of their first item, so the first match
+    // absorbs the others
+    const [story, ...merged] = matching;
+    merged.forEach((other) => story.push(...other));
+    story.push(report);
+    story.sort((a, b) => a.index - b.index);
+    stories = stories.filter((other) => !merged.includes(other));
+  });
+
+  return stories.map(([first, ...related]) => ({
+    first: first.item,
+    related: related.map((report) => report.item),
+  }));
+}
+
+// Add stories to a list of them, e.g. a search's results below what a page
+// already shows. A story that is already in the list, or is the same story
+// as one that is, joins it as related reports instead of showing twice
+export function mergeStories<T extends NewsItem>(list: T[], items: T[]): T[] {
+  const merged = list.slice();
+  items.forEach((item) => {
+    const incoming = [item, ...(item.related || [])].map(toReport);
+    const index = merged.findIndex((story) =>
+      [story, ...(story.related || [])].some((other) => {
+        const report = toReport(other, 0);
+        return incoming.some(
+          (added) => added.item.id === other.id || isSameStory(added, report)
+        );
+      })
+    );
+    if (index === -1) {
+      merged.push(item);
+      return;
+    }
+    const story = merged[index];
+    const known = new Set(
+      [story, ...(story.related || [])].map((report) => report.id)
+    );
+    const related = incoming
+      .filter((report) => !known.has(report.item.id))
+      .map((report) => {
+        const flat: NewsItem = { ...report.item };
+        delete flat.related;
+        return flat;
+      });
+    if (related.length > 0) {
+      merged[index] = {
+        ...story,
+        related: [...(story.related || []), ...related],
+      };
+    }
+  });
+  return merged;
+}
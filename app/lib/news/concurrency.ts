@@ -0,0 +1,17 @@
+// Run task over items with at most `limit` running at a time
+export async function forEachLimited<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        await task(items[next++]);
+      }
+    }
+  );
+  await Promise.all(runners);
+}
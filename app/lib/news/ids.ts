@@ -0,0 +1,17 @@
+import crypto from "crypto";
+import { normalizeText, normalizeUrl } from "./normalize";
+
+// Deterministic id for a news item: the same headline gets the same id on every fetch
+export function newsItemId(item: {
+  title: string;
+  url: string;
+  date: string;
+}): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      [normalizeText(item.title), normalizeUrl(item.url), item.date].join("|")
+    )
+    .digest("hex")
+    .slice(0, 16);
+}
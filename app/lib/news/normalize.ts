@@ -0,0 +1,24 @@
+import { entityKey } from "@/app/lib/entities/registry";
+
+// Text and link normalization shared by ids, dedupe and clustering. Kept
+// apart from ids.ts so pages can use it without pulling in Node's crypto
+
+// Lowercase, strip diacritics and punctuation, collapse whitespace, so
+// "Fenerbahçe win!" and "fenerbahce  win" hash to the same id. The same
+// folding as entity names, so letters outside Latin are kept
+export function normalizeText(value: string): string {
+  return entityKey(value);
+}
+
+// Host, path and query of a link, so trivially different URLs compare equal
+export function normalizeUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    // Fragments and trailing slashes don't change which article a link points to
+    return `${url.host.toLowerCase()}${url.pathname.replace(/\/+$/, "")}${
+      url.search
+    }`;
+  } catch {
+    return value.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,205 @@
+import { mentionsEntity } from "@/app/lib/feeds/ingest";
+import { mergeNewsItems, NewsQuery, queryKey } from "./service";
+import { StoredArticle } from "./store";
+import { NewsItem, NewsSource, PageInfo } from "./types";
+import { verifyUrl } from "./verify";
+
+// Cursor pagination over news lists. A list is sorted on a key (newest or
+// highest ranked first); a cursor is the key of the item a page ended or
+// started on, so pages stay put while new items arrive at the top
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 50;
+// Lists are cut to their first this many items before they are clustered
+// and paged, so a request costs the same however much news is stored
+export const MAX_LIST_ITEMS = 500;
+
+export type SortKey = (string | number)[];
+// The type of each part of a list's sort key; cursors must match it
+export type SortKeyShape = ("string" | "number")[];
+
+export interface PageRequest {
+  before?: SortKey; // Items after this one in list order: older
+  after?: SortKey; // Items before it: newer
+  limit: number;
+}
+
+// Stored news is ordered by date, then by when it was first stored
+export const STORED_NEWS_KEY: SortKeyShape = ["string", "string", "string"];
+
+export type PagedNewsItem = NewsItem & { firstSeenAt: string };
+
+export function storedNewsKey(item: PagedNewsItem): SortKey {
+  return [item.date, item.firstSeenAt, item.id];
+}
+
+export function encodeCursor(key: SortKey): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+// A cursor's key, or null if it isn't one for a list with this key shape
+function decodeCursor(value: string, shape: SortKeyShape): SortKey | null {
+  try {
+    const key: unknown = JSON.parse(
+      Buffer.from(value, "base64url").toString("utf8")
+    );
+    return Array.isArray(key) &&
+      key.length === shape.length &&
+      key.every((part, index) => typeof part === shape[index])
+      ? key
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// before, after and limit from a request body or query string, or why they
+// are invalid
+export function parsePageRequest(
+  values: { before?: unknown; after?: unknown; limit?: unknown },
+  shape: SortKeyShape
+): PageRequest | { error: string } {
+  const limit =
+    values.limit === undefined || values.limit === null || values.limit === ""
+      ? DEFAULT_PAGE_SIZE
+      : Number(values.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return {
+      error: `limit must be a whole number between 1 and ${MAX_PAGE_SIZE}`,
+    };
+  }
+  if (values.before !== undefined && values.after !== undefined) {
+    return { error: "Send before or after, not both" };
+  }
+
+  const page: PageRequest = { limit };
+  for (const field of ["before", "after"] as const) {
+    const value = values[field];
+    if (value === undefined) continue;
+    const key =
+      typeof value === "string" && value.length <= 1000
+        ? decodeCursor(value, shape)
+        : null;
+    if (!key) return { error: `Invalid ${field} cursor` };
+    page[field] = key;
+  }
+  return page;
+}
+
+// Negative when a sorts first: larger keys come first
+function compareKeys(a: SortKey, b: SortKey): number {
+  for (let index = 0; index < a.length; index++) {
+    if (a[index] !== b[index]) return a[index] > b[index] ? -1 : 1;
+  }
+  return 0;
+}
+
+export function sortByKey<T>(items: T[], keyOf: (item: T) => SortKey): T[] {
+  return items.sort((a, b) => compareKeys(keyOf(a), keyOf(b)));
+}
+
+// One page of a list sorted with sortByKey. Without a cursor it is the
+// first page; with after it is the newer items closest to the cursor
+export function paginate<T>(
+  items: T[],
+  keyOf: (item: T) => SortKey,
+  request: PageRequest
+): { items: T[]; page: PageInfo } {
+  let start = 0;
+  let end = Math.min(request.limit, items.length);
+  if (request.before) {
+    const before = request.before;
+    start = items.findIndex((item) => compareKeys(keyOf(item), before) > 0);
+    if (start === -1) start = items.length;
+    end = Math.min(start + request.limit, items.length);
+  } else if (request.after) {
+    const after = request.after;
+    end = items.findIndex((item) => compareKeys(keyOf(item), after) >= 0);
+    if (end === -1) end = items.length;
+    start = Math.max(0, end - request.limit);
+  }
+
+  const page = items.slice(start, end);
+  const first = page.length > 0 ? keyOf(page[0]) : request.after;
+  return {
+    items: page,
+    page: {
+      limit: request.limit,
+      total: items.length,
+      ...(page.length > 0 &&
+        end < items.length && {
+          before: encodeCursor(keyOf(page[page.length - 1])),
+        }),
+      // With nothing newer, the same cursor checks again later
+      ...(first && { after: encodeCursor(first) }),
+    },
+  };
+}
+
+function isAbout(article: StoredArticle, query: NewsQuery): boolean {
+  switch (query.kind) {
+    case "latest":
+      // Everything but schedules
+      return (
+        !article.queries ||
+        article.queries.some((key) => !key.startsWith("fixtures:"))
+      );
+    case "entity-news":
+      return (
+        !!article.queries?.includes(queryKey(query)) ||
+        mentionsEntity(article, query.variables.entity)
+      );
+    case "fixtures":
+      return false; // Schedules aren't paged
+  }
+}
+
+function fromSource(items: PagedNewsItem[], source: NewsSource) {
+  const feedItems = items.filter((item) => item.feedId);
+  const modelItems = items.filter((item) => !item.feedId);
+  if (source === "feeds") return feedItems;
+  if (source === "model") return modelItems;
+  return mergeNewsItems(feedItems, modelItems) as PagedNewsItem[];
+}
+
+// The stored news answering a query, from the given source, sorted for
+// paging and cut to MAX_LIST_ITEMS. Items just returned for the query
+// (fresh) are included even if storing them failed
+export function selectStoredNews(
+  articles: StoredArticle[],
+  query: NewsQuery,
+  source: NewsSource,
+  fresh: NewsItem[] = []
+): PagedNewsItem[] {
+  const items = new Map<string, PagedNewsItem>();
+  articles
+    .filter((article) => isAbout(article, query))
+    .forEach((article) => {
+      const item: PagedNewsItem & Partial<StoredArticle> = {
+        ...article,
+        // Re-check the URL so allow-list changes apply to stored articles too
+        ...verifyUrl(article.url),
+      };
+      delete item.lastSeenAt;
+      delete item.queries;
+      items.set(item.id, item);
+    });
+
+  const now = new Date().toISOString();
+  fresh.forEach((item) =>
+    items.set(item.id, {
+      ...item,
+      firstSeenAt: items.get(item.id)?.firstSeenAt || now,
+    })
+  );
+  return sortByKey(
+    fromSource(Array.from(items.values()), source),
+    storedNewsKey
+  ).slice(0, MAX_LIST_ITEMS);
+}
+
+export function toNewsItem(item: PagedNewsItem): NewsItem {
+  const newsItem: NewsItem & { firstSeenAt?: string } = { ...item };
+  delete newsItem.firstSeenAt;
+  return newsItem;
+}
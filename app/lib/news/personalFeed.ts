@@ -0,0 +1,328 @@
+import {
+  entityKey,
+  isSameEntity,
+  resolveEntity,
+} from "@/app/lib/entities/registry";
+import {
+  getSubscriptions,
+  subscriptionEntries,
+} from "@/app/lib/subscriptions/repository";
+import {
+  applySettings,
+  defaultSettings,
+  isMuted,
+  matchesKeywords,
+  MAX_PRIORITY,
+  MIN_PRIORITY,
+  settingsKey,
+  SubscriptionSettings,
+} from "@/app/lib/subscriptions/settings";
+import { clusterStories } from "./clusters";
+import { forEachLimited } from "./concurrency";
+import { normalizeText, normalizeUrl } from "./normalize";
+import {
+  MAX_LIST_ITEMS,
+  paginate,
+  PageRequest,
+  selectStoredNews,
+  SortKey,
+  sortByKey,
+  SortKeyShape,
+  toNewsItem,
+} from "./pages";
+import { getNews, NewsQuery, NewsResult, parseNewsQuery } from "./service";
+import { listArticles } from "./store";
+import {
+  FeedItem,
+  FeedMatch,
+  FeedResponse,
+  NewsItem,
+  NewsSource,
+} from "./types";
+
+// One ranked list of news across everything a user follows, for /api/feed.
+// Each followed entity is queried once (through the response cache), the
+// stored news about it is read back with its follows' settings applied, and
+// items found for several follows are merged into one
+
+// News queries running at once while a feed is built
+const FEED_CONCURRENCY = 4;
+
+// The feed is ordered by score, then date
+export const FEED_KEY: SortKeyShape = ["number", "string", "string"];
+
+function feedKey(item: FeedItem): SortKey {
+  return [item.score, item.date, item.id];
+}
+
+// How the score is made up; each part is between 0 and 1
+const RECENCY_WEIGHT = 0.5;
+const PRIORITY_WEIGHT = 0.3;
+const MENTIONS_WEIGHT = 0.2;
+// Recency halves every this many days
+const RECENCY_HALF_LIFE_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Follow = FeedMatch & { settings: SubscriptionSettings };
+
+// The follows of one entity, e.g. "Arsenal" as a team and in a custom list
+interface FollowGroup {
+  term: string; // Queried under the first spelling followed
+  follows: Follow[];
+}
+
+interface Candidate {
+  item: NewsItem;
+  groups: FollowGroup[]; // Groups whose news included the item
+  stale: boolean;
+}
+
+export interface PersonalFeed extends Required<Omit<FeedResponse, "error">> {
+  queried: number; // Entities whose news was asked for; 0 for older pages
+}
+
+function groupFollows(
+  entries: FeedMatch[],
+  settings: Record<string, SubscriptionSettings>
+): FollowGroup[] {
+  const groups = new Map<string, FollowGroup>();
+  entries.forEach(({ term, category }) => {
+    const key = resolveEntity(term)?.id || entityKey(term);
+    const group = groups.get(key) || { term, follows: [] };
+    group.follows.push({
+      term,
+      category,
+      settings: settings[settingsKey(term, category)] || defaultSettings(),
+    });
+    groups.set(key, group);
+  });
+  return Array.from(groups.values());
+}
+
+function toMatch({ term, category }: Follow): FeedMatch {
+  return { term, category };
+}
+
+// 1 for today's news, halving every RECENCY_HALF_LIFE_DAYS. Counted in whole
+// days, so scores (and the cursors built from them) hold for a day
+function recencyScore(date: string, now: Date): number {
+  const time = Date.parse(date);
+  if (isNaN(time)) return 0;
+  const today = Date.parse(now.toISOString().split("T")[0]);
+  const ageDays = Math.max(0, Math.round((today - time) / DAY_MS));
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+// Rank an item: newer, from higher-priority follows, and about more of the
+// user's follows ranks higher. Returns the item as the feed shows it
+function rankCandidate(
+  candidate: Candidate,
+  groups: FollowGroup[],
+  now: Date
+): FeedItem {
+  const { item } = candidate;
+  // Follows the item mentions count too, unless their keyword filters
+  // would have dropped it
+  const mentioned = groups.filter(
+    (group) =>
+      !candidate.groups.includes(group) &&
+      item.entities.some((name) => isSameEntity(name, group.term))
+  );
+  const follows = [...candidate.groups, ...mentioned]
+    .map((group) =>
+      group.follows.filter(
+        (follow) =>
+          !isMuted(follow.settings, now) &&
+          matchesKeywords(item, follow.settings)
+      )
+    )
+    .filter((active) => active.length > 0);
+
+  const priority = Math.max(
+    MIN_PRIORITY,
+    ...follows.flat().map((follow) => follow.settings.priority)
+  );
+  const score =
+    RECENCY_WEIGHT * recencyScore(item.date, now) +
+    PRIORITY_WEIGHT *
+      ((priority - MIN_PRIORITY) / (MAX_PRIORITY - MIN_PRIORITY)) +
+    MENTIONS_WEIGHT * (1 - Math.pow(0.5, Math.max(0, follows.length - 1)));
+
+  return {
+    ...item,
+    matches: follows.flat().map(toMatch),
+    score: Math.round(score * 1000) / 1000,
+    ...(candidate.stale && { stale: true }),
+  };
+}
+
+// Items found for several follows are one story: the same id, link or
+// headline. The copy with the higher confidence is kept
+function addCandidate(
+  candidates: Candidate[],
+  index: Map<string, Candidate>,
+  item: NewsItem,
+  group: FollowGroup,
+  stale: boolean
+): void {
+  const keys = [
+    `id:${item.id}`,
+    `url:${normalizeUrl(item.url)}`,
+    `title:${normalizeText(item.title)}`,
+  ];
+  const existing = keys
+    .map((key) => index.get(key))
+    .find((candidate) => candidate !== undefined);
+
+  if (!existing) {
+    const candidate = { item, groups: [group], stale };
+    candidates.push(candidate);
+    keys.forEach((key) => index.set(key, candidate));
+    return;
+  }
+  if (!existing.groups.includes(group)) existing.groups.push(group);
+  existing.stale = existing.stale && stale;
+  if (item.confidence > existing.item.confidence) existing.item = item;
+  keys.forEach((key) => {
+    if (!index.has(key)) index.set(key, existing);
+  });
+}
+
+// A story as the feed shows it: its highest-ranked report, matching the
+// follows of every report, with the others under related
+function mergeStory({
+  first,
+  related,
+}: {
+  first: FeedItem;
+  related: FeedItem[];
+}): FeedItem {
+  if (related.length === 0) return first;
+  const matches = [...first.matches];
+  related.forEach((item) =>
+    item.matches.forEach((match) => {
+      if (
+        !matches.some(
+          (other) =>
+            other.term === match.term && other.category === match.category
+        )
+      ) {
+        matches.push(match);
+      }
+    })
+  );
+  return {
+    ...first,
+    matches,
+    related: related.map((item) => {
+      const report: NewsItem & Partial<FeedItem> = { ...item };
+      delete report.matches;
+      delete report.score;
+      delete report.stale;
+      return report;
+    }),
+  };
+}
+
+export async function buildPersonalFeed(
+  userId: string,
+  source: NewsSource,
+  page: PageRequest,
+  now: Date = new Date()
+): Promise<PersonalFeed> {
+  const subscriptions = await getSubscriptions(userId);
+  const groups = groupFollows(
+    subscriptionEntries(subscriptions),
+    subscriptions.settings
+  );
+
+  const feed: PersonalFeed = {
+    news: [],
+    muted: [],
+    failed: [],
+    filtered: 0,
+    page: { limit: page.limit, total: 0 },
+    queried: 0,
+  };
+
+  const active = groups.filter((group) => {
+    if (group.follows.some((follow) => !isMuted(follow.settings, now))) {
+      return true;
+    }
+    group.follows.forEach((follow) =>
+      feed.muted.push({
+        ...toMatch(follow),
+        mutedUntil: follow.settings.mutedUntil as string,
+      })
+    );
+    return false;
+  });
+
+  const queries = new Map<FollowGroup, NewsQuery>();
+  active.forEach((group) => {
+    const query = parseNewsQuery({ kind: "entity-news", q: group.term });
+    if ("error" in query) {
+      group.follows.forEach((follow) =>
+        feed.failed.push({ ...toMatch(follow), error: query.error })
+      );
+    } else {
+      queries.set(group, query);
+    }
+  });
+
+  // Fetch news for the first page and for newer items; older pages only
+  // read what is stored
+  const fetched = new Map<FollowGroup, NewsResult>();
+  if (!page.before) {
+    await forEachLimited(
+      Array.from(queries.entries()),
+      FEED_CONCURRENCY,
+      async ([group, query]) => {
+        feed.queried++;
+        try {
+          fetched.set(group, await getNews(query, source));
+        } catch (error: unknown) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          console.error("Error fetching feed news:", {
+            message,
+            entity: group.term,
+          });
+          group.follows.forEach((follow) =>
+            feed.failed.push({ ...toMatch(follow), error: message })
+          );
+        }
+      }
+    );
+  }
+
+  const articles = await listArticles();
+  const candidates: Candidate[] = [];
+  const index = new Map<string, Candidate>();
+  queries.forEach((query, group) => {
+    const result = fetched.get(group);
+    const stale = new Set(
+      result?.status === "FALLBACK" ? result.items.map((item) => item.id) : []
+    );
+    const applied = applySettings(
+      selectStoredNews(articles, query, source, result?.items).map(toNewsItem),
+      group.follows.map((follow) => follow.settings),
+      now
+    );
+    feed.filtered += applied.filtered;
+    applied.items.forEach((item) =>
+      addCandidate(candidates, index, item, group, stale.has(item.id))
+    );
+  });
+
+  const ranked = sortByKey(
+    candidates.map((candidate) => rankCandidate(candidate, active, now)),
+    feedKey
+  );
+  const stories = clusterStories(ranked.slice(0, MAX_LIST_ITEMS)).map(
+    mergeStory
+  );
+  const { items, page: info } = paginate(stories, feedKey, page);
+  return { ...feed, news: items, page: info };
+}
@@ -0,0 +1,90 @@
+import { DocumentSpec, getStorage } from "@/app/lib/storage";
+import {
+  CacheKey,
+  hasCacheEntry,
+  matchesPurgeFilter,
+  PurgeFilter,
+  seedCache,
+} from "./cache";
+import { NewsItem } from "./types";
+
+// Results fetched ahead of time by the refresh worker (see worker.ts). The
+// response cache only lives in memory, so these are also kept in storage:
+// a server that didn't run the refresh itself, or just restarted, seeds its
+// cache from here instead of asking the model
+
+export interface PrefetchedEntry extends CacheKey {
+  items: NewsItem[];
+  storedAt: number;
+}
+
+type PrefetchedMap = Record<string, PrefetchedEntry>;
+
+const PREFETCHED_DOCUMENT: DocumentSpec<PrefetchedMap> = {
+  name: "news/prefetched",
+  validate: (data) =>
+    data && typeof data === "object" && !Array.isArray(data)
+      ? (data as PrefetchedMap)
+      : null,
+  empty: () => ({}),
+};
+
+export async function savePrefetched(
+  cacheKey: CacheKey,
+  items: NewsItem[]
+): Promise<void> {
+  const storage = await getStorage();
+  await storage.update(PREFETCHED_DOCUMENT, (prefetched) => {
+    prefetched[cacheKey.key] = { ...cacheKey, items, storedAt: Date.now() };
+  });
+}
+
+// Drop entries whose key isn't in keep, e.g. for names nobody follows
+// any more. Returns how many went
+export async function prunePrefetched(keep: string[]): Promise<number> {
+  let removed = 0;
+  const storage = await getStorage();
+  await storage.update(PREFETCHED_DOCUMENT, (prefetched) => {
+    Object.keys(prefetched).forEach((key) => {
+      if (!keep.includes(key)) {
+        delete prefetched[key];
+        removed++;
+      }
+    });
+  });
+  return removed;
+}
+
+// Drop the entries a cache purge covers, so the purged results aren't seeded
+// right back into the cache. Returns how many went
+export async function purgePrefetched(
+  filter: PurgeFilter = {}
+): Promise<number> {
+  let removed = 0;
+  const storage = await getStorage();
+  await storage.update(PREFETCHED_DOCUMENT, (prefetched) => {
+    Object.values(prefetched).forEach((entry) => {
+      if (matchesPurgeFilter(entry, filter)) {
+        delete prefetched[entry.key];
+        removed++;
+      }
+    });
+  });
+  return removed;
+}
+
+// Put a prefetched result into the in-memory cache if the key isn't cached
+// yet. Storage errors only cost the prefetched copy
+export async function seedFromPrefetched(cacheKey: CacheKey): Promise<void> {
+  if (hasCacheEntry(cacheKey.key)) return;
+  try {
+    const storage = await getStorage();
+    const entry = (await storage.read(PREFETCHED_DOCUMENT))[cacheKey.key];
+    if (entry) seedCache(cacheKey, entry.items, entry.storedAt);
+  } catch (error: unknown) {
+    console.error("Error loading prefetched news:", {
+      message: error instanceof Error ? error.message : String(error),
+      key: cacheKey.key,
+    });
+  }
+}
@@ -0,0 +1,140 @@
+import { NewsItem } from "./types";
+
+export const PLACEHOLDER_URL = "https://example.com/placeholder";
+
+// JSON schema the model's output is constrained to; ids are assigned server-side
+export const NEWS_ITEMS_SCHEMA: Record<string, unknown> = {
+  type: "object",
+  properties: {
+    items: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          date: { type: "string", description: "YYYY-MM-DD" },
+          url: { type: "string" },
+          source: { type: "string" },
+          entities: { type: "array", items: { type: "string" } },
+          confidence: { type: "number", minimum: 0, maximum: 1 },
+        },
+        required: ["title", "date", "url", "source", "entities", "confidence"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["items"],
+  additionalProperties: false,
+};
+
+type RawNewsItem = Omit<NewsItem, "id" | "urlStatus" | "verified">;
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+// Pull every complete top-level {...} object out of text, so a response cut
+// off by max_tokens still yields the items that did finish
+function extractObjects(text: string): unknown[] {
+  const objects: unknown[] = [];
+  const arrayStart = text.indexOf("[");
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = arrayStart + 1; arrayStart >= 0 && i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === "}" && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        try {
+          objects.push(JSON.parse(text.slice(start, i + 1)));
+        } catch {
+          // Skip objects that are still malformed
+        }
+      }
+    }
+  }
+  return objects;
+}
+
+function parseCandidates(content: string): unknown[] {
+  // Models sometimes add a preamble or wrap the JSON in a code fence
+  const firstBrace = content.indexOf("{");
+  const lastBrace = content.lastIndexOf("}");
+  if (firstBrace >= 0 && lastBrace > firstBrace) {
+    try {
+      const parsed = JSON.parse(content.slice(firstBrace, lastBrace + 1));
+      if (Array.isArray(parsed?.items)) return parsed.items;
+    } catch {
+      // Fall through to salvaging individual objects
+    }
+  }
+  return extractObjects(content);
+}
+
+function isValidDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+// Repair what can be repaired (dates, urls, confidence); drop items with no usable title
+function normalizeItem(candidate: unknown): RawNewsItem | null {
+  if (!candidate || typeof candidate !== "object") return null;
+  const raw = candidate as Record<string, unknown>;
+
+  const title = typeof raw.title === "string" ? raw.title.trim() : "";
+  if (!title) return null;
+
+  const date =
+    typeof raw.date === "string" && isValidDate(raw.date.trim())
+      ? raw.date.trim()
+      : today();
+  const url =
+    typeof raw.url === "string" && isValidUrl(raw.url.trim())
+      ? raw.url.trim()
+      : PLACEHOLDER_URL;
+  const source =
+    typeof raw.source === "string" && raw.source.trim()
+      ? raw.source.trim()
+      : "Unknown";
+  const entities = Array.isArray(raw.entities)
+    ? raw.entities
+        .filter((entity): entity is string => typeof entity === "string")
+        .map((entity) => entity.trim())
+        .filter((entity) => entity.length > 0)
+    : [];
+  const confidence =
+    typeof raw.confidence === "number" && !isNaN(raw.confidence)
+      ? Math.min(1, Math.max(0, raw.confidence))
+      : 0;
+
+  return { title, date, url, source, entities, confidence };
+}
+
+// Turn the model's raw text into validated items (without ids)
+export function parseNewsItems(content: string): RawNewsItem[] {
+  return parseCandidates(content)
+    .map(normalizeItem)
+    .filter((item): item is RawNewsItem => item !== null);
+}
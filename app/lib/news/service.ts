@@ -0,0 +1,316 @@
+import { getFeedNews } from "@/app/lib/feeds/ingest";
+import { CompletionRequest, getLlmProvider } from "@/app/lib/llm";
+import {
+  NewsKind,
+  PromptVariables,
+  renderPrompt,
+  selectPromptTemplate,
+} from "@/app/lib/prompts/registry";
+import {
+  checkModelOutput,
+  logRejectedPrompt,
+  MAX_QUERY_LENGTH,
+  sanitizeUntrusted,
+} from "@/app/lib/prompts/guard";
+import {
+  CachedResult,
+  CacheKey,
+  CacheStatus,
+  getOrLoad,
+  refreshCacheEntry,
+} from "./cache";
+import { newsItemId } from "./ids";
+import { normalizeText, normalizeUrl } from "./normalize";
+import { savePrefetched, seedFromPrefetched } from "./prefetch";
+import { parseNewsItems } from "./schema";
+import { saveNewsItems } from "./store";
+import { NewsErrorCode, NewsItem, NewsSource } from "./types";
+import { verifyUrl } from "./verify";
+
+// A validated /api/news request: which prompt kind to run and its variables
+export type NewsQuery = {
+  [K in NewsKind]: { kind: K; variables: PromptVariables[K] };
+}[NewsKind];
+
+// Raised when the model answered but nothing usable could be extracted
+export class NewsServiceError extends Error {
+  code: NewsErrorCode;
+  status: number;
+
+  constructor(message: string, code: NewsErrorCode, status: number) {
+    super(message);
+    this.name = "NewsServiceError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// Build a NewsQuery from a request body, or return why it is invalid.
+// Free-text queries are sanitized here, before they can reach a prompt
+export function parseNewsQuery(
+  body: Record<string, unknown>
+): NewsQuery | { error: string; code?: NewsErrorCode } {
+  const { kind, q, days } = body;
+
+  switch (kind) {
+    case "latest":
+      return { kind, variables: {} };
+    case "entity-news":
+      if (!q || typeof q !== "string" || !q.trim()) {
+        return { error: "Please provide a valid query" };
+      }
+      const entity = sanitizeUntrusted(q, MAX_QUERY_LENGTH);
+      if (!entity.ok) {
+        logRejectedPrompt({
+          route: "/api/news",
+          field: "q",
+          reason: entity.reason,
+          value: q,
+        });
+        return {
+          error: `Query rejected: ${entity.reason}`,
+          code: "REJECTED_INPUT",
+        };
+      }
+      return { kind, variables: { entity: entity.value } };
+    case "fixtures":
+      if (
+        days !== undefined &&
+        (typeof days !== "number" ||
+          !Number.isInteger(days) ||
+          days < 1 ||
+          days > 30)
+      ) {
+        return { error: "days must be a whole number between 1 and 30" };
+      }
+      return {
+        kind,
+        variables: {
+          region: "Europe",
+          days: (days as number | undefined) ?? 7,
+        },
+      };
+    default:
+      return {
+        error: `Unknown news kind "${String(
+          kind
+        )}" (expected latest, entity-news or fixtures)`,
+      };
+  }
+}
+
+const NEWS_SOURCES: NewsSource[] = ["model", "feeds", "merged"];
+
+// NEWS_SOURCE sets the default; with no feeds configured "merged" is the
+// same as "model"
+function defaultNewsSource(): NewsSource {
+  const configured = process.env.NEWS_SOURCE as NewsSource;
+  return NEWS_SOURCES.includes(configured) ? configured : "merged";
+}
+
+// The optional "source" field of a /api/news body
+export function parseNewsSource(
+  value: unknown
+): NewsSource | { error: string } {
+  if (value === undefined) return defaultNewsSource();
+  if (!NEWS_SOURCES.includes(value as NewsSource)) {
+    return { error: `source must be one of: ${NEWS_SOURCES.join(", ")}` };
+  }
+  return value as NewsSource;
+}
+
+// What a query is about, independent of prompt wording: the normalized entity
+// for entity news, the window for fixtures, nothing for latest
+function querySubject(query: NewsQuery): string {
+  switch (query.kind) {
+    case "latest":
+      return "";
+    case "entity-news":
+      return normalizeText(query.variables.entity);
+    case "fixtures":
+      return `${normalizeText(query.variables.region)}-${query.variables.days}d`;
+  }
+}
+
+// Identifies a query in the article store, across prompt versions
+export function queryKey(query: NewsQuery): string {
+  return `${query.kind}:${querySubject(query)}`;
+}
+
+// Ask the model for news, validate the structured response and store the
+// items under the query that asked for them
+async function generateNews(
+  request: CompletionRequest,
+  query: string
+): Promise<NewsItem[]> {
+  const provider = getLlmProvider();
+  const completion = await provider.complete(request);
+
+  // Refuse output that wandered off the task, e.g. after a successful injection
+  const offTask = checkModelOutput(completion.content);
+  if (offTask) {
+    logRejectedPrompt({
+      route: "/api/news",
+      field: "output",
+      reason: offTask,
+      value: completion.content,
+    });
+    throw new NewsServiceError(
+      `Rejected ${provider.label} response: ${offTask}`,
+      "OFF_TASK_RESPONSE",
+      502
+    );
+  }
+
+  // Validate the structured response, dropping or repairing malformed items
+  const items: NewsItem[] = parseNewsItems(completion.content).map((item) => ({
+    id: newsItemId(item), // Content-addressed, so links stay valid across fetches
+    ...item,
+    ...verifyUrl(item.url), // Flag placeholder and unknown links instead of trusting the model
+  }));
+
+  if (items.length === 0) {
+    console.error(`No valid news items returned from ${provider.label}:`, {
+      content: completion.content.slice(0, 500),
+    });
+    throw new NewsServiceError(
+      `No valid news or game data returned from ${provider.label} API`,
+      "NO_VALID_ITEMS",
+      502
+    );
+  }
+
+  // Keep the items so /news/[id] can load them by id alone
+  try {
+    await saveNewsItems(items, query);
+  } catch (error: unknown) {
+    console.error("Error saving news items:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+
+  return items;
+}
+
+function preparePrompt<K extends NewsKind>(
+  kind: K,
+  variables: PromptVariables[K],
+  subject: string
+): { version: string; request: CompletionRequest } {
+  const template = selectPromptTemplate(kind, subject);
+  return {
+    version: template.version,
+    request: renderPrompt(template, variables),
+  };
+}
+
+// Model and feed items for the same query. Feed items come first; model items
+// that repeat one of them (same link or same headline) are dropped
+export function mergeNewsItems(
+  feedItems: NewsItem[],
+  modelItems: NewsItem[]
+): NewsItem[] {
+  const urls = new Set(feedItems.map((item) => normalizeUrl(item.url)));
+  const titles = new Set(feedItems.map((item) => normalizeText(item.title)));
+  return [
+    ...feedItems,
+    ...modelItems.filter(
+      (item) =>
+        !urls.has(normalizeUrl(item.url)) &&
+        !titles.has(normalizeText(item.title))
+    ),
+  ];
+}
+
+// BYPASS: served from the feeds alone, without the model or its cache
+export interface NewsResult {
+  items: NewsItem[];
+  status: CacheStatus | "BYPASS";
+  ageSeconds: number;
+  promptVersion?: string; // Absent when the model wasn't asked
+}
+
+// News for a query from the model, the publisher feeds or both. Feed items
+// are stored as they are fetched, so only model output goes through the
+// response cache
+export async function getNews(
+  query: NewsQuery,
+  source: NewsSource = "model"
+): Promise<NewsResult> {
+  // Feeds carry news, not schedules
+  if (source === "model" || query.kind === "fixtures") {
+    return getModelNews(query);
+  }
+
+  const feedItems = await getFeedNews(query);
+  if (source === "feeds") {
+    return { items: feedItems, status: "BYPASS", ageSeconds: 0 };
+  }
+
+  try {
+    const result = await getModelNews(query);
+    return { ...result, items: mergeNewsItems(feedItems, result.items) };
+  } catch (error: unknown) {
+    if (feedItems.length === 0) throw error;
+    // The feeds alone still answer the query
+    console.error("Error fetching model news; serving feed items only:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return { items: feedItems, status: "BYPASS", ageSeconds: 0 };
+  }
+}
+
+// The prompt for a query and its cache key. The key carries the prompt
+// version, so answers from an old prompt are never reused
+function modelNewsRequest(query: NewsQuery): {
+  cacheKey: CacheKey;
+  version: string;
+  request: CompletionRequest;
+} {
+  const subject = querySubject(query);
+  const { version, request } = preparePrompt(
+    query.kind,
+    query.variables,
+    subject
+  );
+  return {
+    cacheKey: {
+      key: `${query.kind}:v${version}:${subject}`,
+      kind: query.kind,
+      subject,
+    },
+    version,
+    request,
+  };
+}
+
+// News for a query, served from the response cache when possible. A result
+// the refresh worker prefetched counts as cached
+async function getModelNews(
+  query: NewsQuery
+): Promise<CachedResult & { promptVersion: string }> {
+  const { cacheKey, version, request } = modelNewsRequest(query);
+  await seedFromPrefetched(cacheKey);
+  const result = await getOrLoad(cacheKey, () =>
+    generateNews(request, queryKey(query))
+  );
+  return { ...result, promptVersion: version };
+}
+
+// The key a query's model news is cached and prefetched under
+export function newsCacheKey(query: NewsQuery): string {
+  return modelNewsRequest(query).cacheKey.key;
+}
+
+// Ask the model now, whatever is cached, and keep the result for later
+// requests in this and other processes. Returns the cache key it filled
+export async function prefetchNews(query: NewsQuery): Promise<string> {
+  const { cacheKey, request } = modelNewsRequest(query);
+  const items = await refreshCacheEntry(cacheKey, () =>
+    generateNews(request, queryKey(query))
+  );
+  await savePrefetched(cacheKey, items);
+  return cacheKey.key;
+}
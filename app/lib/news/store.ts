@@ -0,0 +1,114 @@
+import { DocumentSpec, getStorage } from "@/app/lib/storage";
+import { NewsItem } from "./types";
+import { verifyUrl } from "./verify";
+
+// Article as kept in the store, with when it was first and last returned
+export interface StoredArticle extends NewsItem {
+  firstSeenAt: string;
+  lastSeenAt: string;
+  // Queries that returned it (see queryKey in service.ts), so older pages of
+  // a query's news can be read back. Absent on articles stored before these
+  // were recorded, and on feed items
+  queries?: string[];
+}
+
+type ArticleMap = Record<string, StoredArticle>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && !isNaN(value) && value > 0 ? value : fallback;
+}
+
+// Articles kept at most; the oldest go first
+export function getMaxStoredArticles(): number {
+  return envNumber("NEWS_STORE_MAX_ITEMS", 2000);
+}
+
+// Articles no query has returned for this long are dropped
+export function getArticleMaxAgeMs(): number {
+  return envNumber("NEWS_STORE_MAX_AGE_DAYS", 30) * DAY_MS;
+}
+
+const ARTICLES_DOCUMENT: DocumentSpec<ArticleMap> = {
+  name: "articles",
+  validate: (data) =>
+    data && typeof data === "object" && !Array.isArray(data)
+      ? (data as ArticleMap)
+      : null,
+  empty: () => ({}),
+};
+
+function newestFirst(a: StoredArticle, b: StoredArticle): number {
+  return (
+    b.date.localeCompare(a.date) || b.lastSeenAt.localeCompare(a.lastSeenAt)
+  );
+}
+
+// Drop articles not seen within NEWS_STORE_MAX_AGE_DAYS, then the oldest
+// beyond NEWS_STORE_MAX_ITEMS, so reading the store stays cheap
+function pruneArticles(articles: ArticleMap, now: Date): void {
+  const cutoff = new Date(now.getTime() - getArticleMaxAgeMs()).toISOString();
+  const kept = Object.values(articles).filter((article) => {
+    if (article.lastSeenAt >= cutoff) return true;
+    delete articles[article.id];
+    return false;
+  });
+  kept
+    .sort(newestFirst)
+    .slice(getMaxStoredArticles())
+    .forEach((article) => {
+      delete articles[article.id];
+    });
+}
+
+// Insert new items and refresh existing ones; ids are content-addressed so
+// re-fetching the same headline updates one entry instead of adding another
+export async function saveNewsItems(
+  items: NewsItem[],
+  query?: string
+): Promise<void> {
+  const date = new Date();
+  const now = date.toISOString();
+  const storage = await getStorage();
+  await storage.update(ARTICLES_DOCUMENT, (articles) => {
+    items.forEach((item) => {
+      const existing = articles[item.id];
+      const queries = existing?.queries || [];
+      articles[item.id] = {
+        ...item,
+        firstSeenAt: existing?.firstSeenAt || now,
+        lastSeenAt: now,
+        ...((query || queries.length > 0) && {
+          queries:
+            query && !queries.includes(query) ? [...queries, query] : queries,
+        }),
+      };
+    });
+    pruneArticles(articles, date);
+  });
+}
+
+export async function getArticle(id: string): Promise<StoredArticle | null> {
+  let articles: ArticleMap;
+  try {
+    const storage = await getStorage();
+    articles = await storage.read(ARTICLES_DOCUMENT);
+  } catch (error: unknown) {
+    console.error("Error loading articles:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return null;
+  }
+  const article = articles[id];
+  if (!article) return null;
+  // Re-check the URL so allow-list changes apply to stored articles too
+  return { ...article, ...verifyUrl(article.url) };
+}
+
+export async function listArticles(): Promise<StoredArticle[]> {
+  const storage = await getStorage();
+  return Object.values(await storage.read(ARTICLES_DOCUMENT));
+}
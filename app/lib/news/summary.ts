@@ -0,0 +1,95 @@
+import { CompletionRequest } from "@/app/lib/llm";
+import {
+  checkModelOutput,
+  GuardResult,
+  logRejectedPrompt,
+  MAX_EXCERPT_LENGTH,
+  MAX_TITLE_LENGTH,
+  sanitizeUntrusted,
+} from "@/app/lib/prompts/guard";
+import { renderPrompt, selectPromptTemplate } from "@/app/lib/prompts/registry";
+import { normalizeText } from "./normalize";
+import { getArticle } from "./store";
+
+// Prefer the stored article's title; a client-supplied title is only a
+// fallback for items that never made it into the store. Either way it is
+// sanitized, since it ends up inside the prompt
+export async function resolveSummaryTitle(
+  newsId: unknown,
+  requestTitle: unknown,
+  route: string
+): Promise<GuardResult> {
+  const article =
+    newsId && typeof newsId === "string" ? await getArticle(newsId) : null;
+  const title =
+    article?.title ||
+    (typeof requestTitle === "string" && requestTitle
+      ? requestTitle
+      : undefined);
+
+  if (!newsId || typeof newsId !== "string" || !title) {
+    return { ok: false, reason: "Invalid news ID or title" };
+  }
+
+  const result = sanitizeUntrusted(title, MAX_TITLE_LENGTH);
+  if (!result.ok) {
+    logRejectedPrompt({
+      route,
+      field: article ? "stored title" : "title",
+      reason: result.reason,
+      value: title,
+    });
+    return { ok: false, reason: `Title rejected: ${result.reason}` };
+  }
+  return result;
+}
+
+// The article text a publisher feed supplied, sanitized like the title.
+// Model-generated items have none
+export async function resolveSummaryExcerpt(
+  newsId: unknown,
+  route: string
+): Promise<string | undefined> {
+  const article =
+    newsId && typeof newsId === "string" ? await getArticle(newsId) : null;
+  if (!article?.excerpt) return undefined;
+
+  const result = sanitizeUntrusted(article.excerpt, MAX_EXCERPT_LENGTH);
+  if (!result.ok) {
+    // Still summarize from the title alone
+    logRejectedPrompt({
+      route,
+      field: "stored excerpt",
+      reason: result.reason,
+      value: article.excerpt,
+    });
+    return undefined;
+  }
+  return result.value;
+}
+
+// The same request backs the plain and streaming summary routes, so a
+// recorded fixture replays for either
+export function buildSummaryRequest(
+  title: string,
+  excerpt?: string
+): CompletionRequest {
+  return renderPrompt(selectPromptTemplate("summary", normalizeText(title)), {
+    title,
+    excerpt,
+  });
+}
+
+// Returns why a generated summary should be withheld, logging the rejection.
+// Without a title only the injection markers are checked (for partial streams)
+export function rejectOffTaskSummary(
+  summary: string,
+  route: string,
+  title?: string
+): string | null {
+  const reason = checkModelOutput(summary, title);
+  if (reason) {
+    logRejectedPrompt({ route, field: "output", reason, value: summary });
+  }
+  return reason;
+}
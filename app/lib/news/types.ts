@@ -0,0 +1,73 @@
+import type { UrlStatus } from "./verify";
+
+// Shared shape of the items returned by /api/news
+
+export interface NewsItem {
+  id: string;
+  title: string;
+  date: string; // YYYY-MM-DD
+  url: string;
+  source: string; // Publisher name, "Unknown" when the model didn't say
+  entities: string[]; // Teams, players, leagues or tournaments the item mentions
+  confidence: number; // Model's own 0-1 estimate that the item is accurate
+  urlStatus: UrlStatus; // What the URL check found (see verify.ts)
+  verified: boolean; // True only when the URL points at an allow-listed publisher
+  feedId?: string; // Set for items ingested from a publisher feed (see app/lib/feeds)
+  excerpt?: string; // Opening text of the article, when the feed provides it
+  // Other reports of the same story, on the feed and latest news (see clusters.ts)
+  related?: NewsItem[];
+}
+
+// Where /api/news items come from: the model, the configured publisher feeds,
+// or both
+export type NewsSource = "model" | "feeds" | "merged";
+
+// Machine-readable reasons a /api/news request failed
+export type NewsErrorCode =
+  | "NO_VALID_ITEMS"
+  | "REJECTED_INPUT" // Query failed sanitization or looked like prompt injection
+  | "OFF_TASK_RESPONSE"; // Model output ignored the football-news task
+
+// Where a page of a news list sits. Cursors are opaque; send one back as
+// before or after to move through the list
+export interface PageInfo {
+  limit: number;
+  total: number; // Items in the whole list when this page was read; a hint
+  before?: string; // Older items (lower ranked, for /api/feed); absent at the end
+  after?: string; // Newer items, e.g. to check for news since this page
+}
+
+export interface NewsResponse {
+  news: NewsItem[];
+  page?: PageInfo; // Absent for fixtures, which aren't paged
+  stale?: boolean; // Live generation failed and these are the last good results
+  // Set when the query is a followed entity (see app/lib/subscriptions/settings.ts)
+  filtered?: number; // Items dropped by mute or keyword filters
+  priority?: number; // The follow's priority
+  mutedUntil?: string; // The follow is muted, so no news until then
+  error?: string;
+  code?: NewsErrorCode;
+}
+
+// A follow a feed item was found for, or mentions
+export interface FeedMatch {
+  term: string;
+  category: string;
+}
+
+// An item of the signed-in user's feed (/api/feed)
+export interface FeedItem extends NewsItem {
+  matches: FeedMatch[]; // The user's follows the item is about
+  score: number; // Ranking score, higher first (see app/lib/news/personalFeed.ts)
+  stale?: boolean; // Only saved results were available for every match
+}
+
+export interface FeedResponse {
+  news: FeedItem[];
+  // Follows left out of this feed: muted ones, and ones whose news failed
+  muted?: (FeedMatch & { mutedUntil: string })[];
+  failed?: (FeedMatch & { error: string })[];
+  filtered?: number; // Items dropped by keyword filters
+  page?: PageInfo;
+  error?: string;
+}
@@ -0,0 +1,105 @@
+import { PLACEHOLDER_URL } from "./schema";
+
+// How much a news item's URL can be trusted, from worst to best
+export type UrlStatus =
+  | "placeholder" // The model's "no URL" fallback or an example/test domain
+  | "malformed" // Not a usable http(s) URL
+  | "unknown-domain" // Well-formed, but not a publisher on the allow-list
+  | "allow-listed"; // Points at a known publisher
+
+// Publishers trusted out of the box; NEWS_DOMAIN_ALLOWLIST replaces this list
+export const DEFAULT_ALLOWED_DOMAINS = [
+  "bbc.co.uk",
+  "bbc.com",
+  "skysports.com",
+  "espn.com",
+  "theguardian.com",
+  "theathletic.com",
+  "reuters.com",
+  "apnews.com",
+  "goal.com",
+  "uefa.com",
+  "fifa.com",
+  "premierleague.com",
+  "laliga.com",
+  "legaseriea.it",
+  "bundesliga.com",
+  "tff.org",
+  "marca.com",
+  "as.com",
+  "gazzetta.it",
+  "kicker.de",
+  "lequipe.fr",
+  "fanatik.com.tr",
+  "transfermarkt.com",
+];
+
+// Hosts reserved for documentation or tests, never real articles
+const PLACEHOLDER_HOSTS = ["example.com", "example.org", "example.net"];
+
+function hostMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+// Allow-list from NEWS_DOMAIN_ALLOWLIST (comma-separated domains), falling
+// back to the built-in publishers
+export function getAllowedDomains(): string[] {
+  const configured = process.env.NEWS_DOMAIN_ALLOWLIST;
+  if (!configured) return DEFAULT_ALLOWED_DOMAINS;
+  return configured
+    .split(",")
+    .map((domain) =>
+      domain
+        .trim()
+        .toLowerCase()
+        .replace(/^www\./, "")
+    )
+    .filter((domain) => domain.length > 0);
+}
+
+// Pure and offline: only looks at the URL text, never fetches it
+export function classifyUrl(
+  value: string,
+  allowedDomains: string[] = getAllowedDomains()
+): UrlStatus {
+  if (!value || value === PLACEHOLDER_URL) return "placeholder";
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "malformed";
+  }
+
+  const host = url.hostname.toLowerCase();
+  if (
+    PLACEHOLDER_HOSTS.some((domain) => hostMatches(host, domain)) ||
+    host.endsWith(".example") ||
+    host.endsWith(".test") ||
+    host.endsWith(".invalid") ||
+    /placeholder/i.test(url.pathname)
+  ) {
+    return "placeholder";
+  }
+  if (
+    (url.protocol !== "https:" && url.protocol !== "http:") ||
+    !host.includes(".") ||
+    host === "localhost" ||
+    /^[\d.]+$/.test(host) // Bare IPv4 addresses are not publisher links
+  ) {
+    return "malformed";
+  }
+  if (allowedDomains.some((domain) => hostMatches(host, domain))) {
+    return "allow-listed";
+  }
+  return "unknown-domain";
+}
+
+// Trust flags attached to every item /api/news returns
+export function verifyUrl(
+  url: string,
+  allowedDomains?: string[]
+): { urlStatus: UrlStatus; verified: boolean } {
+  const urlStatus = classifyUrl(url, allowedDomains);
+  return { urlStatus, verified: urlStatus === "allow-listed" };
+}
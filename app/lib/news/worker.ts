@@ -0,0 +1,145 @@
+import { refreshFeeds } from "@/app/lib/feeds/ingest";
+import { listFollowedTerms } from "@/app/lib/subscriptions/repository";
+import { forEachLimited } from "./concurrency";
+import { prunePrefetched } from "./prefetch";
+import {
+  newsCacheKey,
+  NewsQuery,
+  parseNewsQuery,
+  prefetchNews,
+} from "./service";
+
+// Background refresh: every NEWS_REFRESH_INTERVAL_SECONDS, fetch news for
+// everything anyone follows (plus the latest headlines), so pages are
+// answered from the cache instead of waiting on the model. Runs inside the
+// server (instrumentation.ts) or on its own (npm run news:refresh)
+
+export interface RefreshPassResult {
+  startedAt: string;
+  durationMs: number;
+  refreshed: number;
+  failed: { query: string; error: string }[];
+  pruned: number; // Prefetched results dropped because nobody follows them
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && !isNaN(value) && value >= 0 ? value : fallback;
+}
+
+// 0 (the default) leaves the in-process worker off
+export function getRefreshIntervalMs(): number {
+  return envNumber("NEWS_REFRESH_INTERVAL_SECONDS", 0) * 1000;
+}
+
+// Model requests in flight at once during a pass
+export function getRefreshConcurrency(): number {
+  return Math.max(1, Math.floor(envNumber("NEWS_REFRESH_CONCURRENCY", 2)));
+}
+
+// The queries a pass refreshes. Names that fail the /api/news input checks
+// are skipped, as a request for them would be rejected anyway
+async function refreshQueries(): Promise<NewsQuery[]> {
+  const queries: NewsQuery[] = [{ kind: "latest", variables: {} }];
+  (await listFollowedTerms()).forEach((term) => {
+    const query = parseNewsQuery({ kind: "entity-news", q: term });
+    if (!("error" in query)) queries.push(query);
+  });
+  return queries;
+}
+
+function describe(query: NewsQuery): string {
+  return query.kind === "entity-news"
+    ? `${query.kind} ${query.variables.entity}`
+    : query.kind;
+}
+
+// One pass over every followed name. Failures are collected, not thrown, so
+// one bad query doesn't stop the rest
+export async function runRefreshPass(): Promise<RefreshPassResult> {
+  const started = Date.now();
+  const result: RefreshPassResult = {
+    startedAt: new Date(started).toISOString(),
+    durationMs: 0,
+    refreshed: 0,
+    failed: [],
+    pruned: 0,
+  };
+
+  // Feed items are stored as they arrive, so fetching due feeds is enough
+  await refreshFeeds();
+
+  const queries = await refreshQueries();
+  await forEachLimited(queries, getRefreshConcurrency(), async (query) => {
+    try {
+      await prefetchNews(query);
+      result.refreshed++;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("Error refreshing news:", {
+        message,
+        query: describe(query),
+      });
+      result.failed.push({ query: describe(query), error: message });
+    }
+  });
+
+  // Drop results for names nobody follows any more. A name whose refresh
+  // failed keeps its older result, and nothing is pruned when every query
+  // failed, so a provider outage doesn't throw prefetched results away
+  if (result.refreshed > 0) {
+    try {
+      result.pruned = await prunePrefetched(queries.map(newsCacheKey));
+    } catch (error: unknown) {
+      console.error("Error pruning prefetched news:", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  result.durationMs = Date.now() - started;
+  return result;
+}
+
+// Kept on globalThis so dev hot reloads don't start a second worker
+const globalForWorker = globalThis as unknown as {
+  newsRefreshWorker?: { timer: ReturnType<typeof setTimeout> | null };
+};
+
+// Schedule passes every intervalMs, each starting after the previous one
+// finished, so slow passes never overlap. onPass gets each pass's result;
+// failures are logged either way. Returns a function that stops it
+export function startRefreshWorker(
+  intervalMs: number = getRefreshIntervalMs(),
+  onPass: (result: RefreshPassResult) => void = () => {}
+): () => void {
+  if (globalForWorker.newsRefreshWorker || intervalMs <= 0) {
+    return () => {};
+  }
+  const worker: { timer: ReturnType<typeof setTimeout> | null } = {
+    timer: null,
+  };
+  globalForWorker.newsRefreshWorker = worker;
+
+  const schedule = (delayMs: number) => {
+    worker.timer = setTimeout(async () => {
+      try {
+        onPass(await runRefreshPass());
+      } catch (error: unknown) {
+        console.error("Error in news refresh pass:", {
+          message: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+      }
+      if (globalForWorker.newsRefreshWorker === worker) schedule(intervalMs);
+    }, delayMs);
+  };
+  schedule(0);
+
+  return () => {
+    if (worker.timer) clearTimeout(worker.timer);
+    if (globalForWorker.newsRefreshWorker === worker) {
+      globalForWorker.newsRefreshWorker = undefined;
+    }
+  };
+}
@@ -0,0 +1,80 @@
+import crypto from "crypto";
+import { CompletionRequest, getModelForRoute } from "@/app/lib/llm";
+import { PROMPT_TEMPLATES } from "./templates";
+import { PromptKind, PromptTemplate, PromptVariables } from "./types";
+
+export * from "./types";
+
+const PROMPT_KINDS = Object.keys(PROMPT_TEMPLATES) as PromptKind[];
+
+export function isPromptKind(value: unknown): value is PromptKind {
+  return (
+    typeof value === "string" && PROMPT_KINDS.includes(value as PromptKind)
+  );
+}
+
+function envName(kind: PromptKind): string {
+  return `PROMPT_VERSIONS_${kind.toUpperCase().replace(/-/g, "_")}`;
+}
+
+// PROMPT_VERSIONS_<KIND> picks versions and their traffic share, e.g.
+// PROMPT_VERSIONS_ENTITY_NEWS="1:80,2:20"; a bare "2" pins one version
+function configuredWeights(
+  kind: PromptKind
+): { version: string; weight: number }[] {
+  const raw = process.env[envName(kind)];
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((part) => {
+      const [version, weight] = part.split(":").map((value) => value.trim());
+      return { version, weight: weight === undefined ? 1 : Number(weight) };
+    })
+    .filter(
+      ({ version, weight }) =>
+        PROMPT_TEMPLATES[kind].some(
+          (template) => template.version === version
+        ) && weight > 0
+    );
+}
+
+// Choose the template version for a request. The seed (e.g. the normalized
+// query) makes the A/B split stable, so a query keeps hitting one version
+// and its cached answer stays valid
+export function selectPromptTemplate<K extends PromptKind>(
+  kind: K,
+  seed: string
+): PromptTemplate<K> {
+  const templates = PROMPT_TEMPLATES[kind] as PromptTemplate<K>[];
+  const weights = configuredWeights(kind);
+  if (weights.length === 0) return templates[0];
+
+  const total = weights.reduce((sum, { weight }) => sum + weight, 0);
+  const hash = crypto.createHash("sha256").update(`${kind}:${seed}`).digest();
+  let point = (hash.readUInt32BE(0) / 0x100000000) * total;
+  for (let i = 0; i < weights.length; i++) {
+    point -= weights[i].weight;
+    if (point < 0) {
+      return (
+        templates.find((t) => t.version === weights[i].version) || templates[0]
+      );
+    }
+  }
+  return templates[0];
+}
+
+export function renderPrompt<K extends PromptKind>(
+  template: PromptTemplate<K>,
+  variables: PromptVariables[K]
+): CompletionRequest {
+  return {
+    model: getModelForRoute(template.purpose),
+    purpose: template.purpose,
+    messages: [
+      { role: "system", content: template.system },
+      { role: "user", content: template.render(variables) },
+    ],
+    maxTokens: template.maxTokens,
+    responseFormat: template.responseFormat,
+  };
+}
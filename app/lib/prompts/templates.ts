@@ -0,0 +1,89 @@
+import { NEWS_ITEMS_SCHEMA, PLACEHOLDER_URL } from "@/app/lib/news/schema";
+import { delimitUntrusted, UNTRUSTED_INSTRUCTIONS } from "./guard";
+import { PromptTemplateMap } from "./types";
+
+// Shared instructions describing the JSON fields every news prompt asks for
+const ITEM_FORMAT = `Respond with a JSON object of the form {"items": [...]}. Each item has "title" (the headline), "date" (YYYY-MM-DD), "url" (a link to a relevant article), "source" (the publisher's name), "entities" (the teams, players, leagues or tournaments mentioned) and "confidence" (a number from 0 to 1 for how sure you are the item is accurate). If no URL is available, use "${PLACEHOLDER_URL}". Do not include any text outside the JSON.`;
+
+const NEWS_SYSTEM =
+  "You are a helpful AI assistant specializing in football (soccer) news and schedules.";
+
+const NEWS_OPTIONS = {
+  purpose: "news" as const,
+  system: NEWS_SYSTEM,
+  maxTokens: 1000, // Room for several JSON items; truncated output is salvaged by the parser
+  responseFormat: {
+    type: "json_schema" as const,
+    name: "news_items",
+    schema: NEWS_ITEMS_SCHEMA,
+  },
+};
+
+// Every prompt the app sends, by kind and version. The first entry of each
+// list is the default version
+export const PROMPT_TEMPLATES: PromptTemplateMap = {
+  latest: [
+    {
+      kind: "latest",
+      version: "1",
+      ...NEWS_OPTIONS,
+      render: () =>
+        `List the latest football (soccer) news items. ${ITEM_FORMAT}`,
+    },
+  ],
+  "entity-news": [
+    {
+      // v2 fences the user's query; v1 interpolated it raw and was removed
+      kind: "entity-news",
+      version: "2",
+      ...NEWS_OPTIONS,
+      system: `${NEWS_SYSTEM} ${UNTRUSTED_INSTRUCTIONS}`,
+      render: ({ entity }) =>
+        `List the latest football (soccer) news items for ${delimitUntrusted(
+          entity
+        )}. ${ITEM_FORMAT}`,
+    },
+  ],
+  fixtures: [
+    {
+      kind: "fixtures",
+      version: "1",
+      ...NEWS_OPTIONS,
+      render: ({ region, days }) =>
+        `List upcoming important football matches in ${region} for the next ${days} days. Use the match details (teams and competition) as the title and the match date as the date. ${ITEM_FORMAT}`,
+    },
+  ],
+  summary: [
+    {
+      // v3 summarizes the article's own text when a publisher feed supplied
+      // an excerpt, instead of the model recalling the story from the title
+      kind: "summary",
+      version: "3",
+      purpose: "summary",
+      system: `You are a helpful AI assistant specializing in football (soccer) news summaries. ${UNTRUSTED_INSTRUCTIONS}`,
+      maxTokens: 200,
+      render: ({ title, excerpt }) =>
+        excerpt
+          ? `Provide a concise summary (about 100-150 words) of the football news article titled ${delimitUntrusted(
+              title
+            )}, based on this excerpt from the article: ${delimitUntrusted(
+              excerpt
+            )}. Only state what the excerpt supports. Do not include any additional formatting or text beyond the summary itself.`
+          : `Provide a detailed but concise summary (about 100-150 words) of the football news item titled ${delimitUntrusted(
+              title
+            )}. Include key details, context, and any relevant updates. Do not include any additional formatting or text beyond the summary itself.`,
+    },
+    {
+      // v2 fences the news title; v1 interpolated it raw and was removed
+      kind: "summary",
+      version: "2",
+      purpose: "summary",
+      system: `You are a helpful AI assistant specializing in football (soccer) news summaries. ${UNTRUSTED_INSTRUCTIONS}`,
+      maxTokens: 200,
+      render: ({ title }) =>
+        `Provide a detailed but concise summary (about 100-150 words) of the football news item titled ${delimitUntrusted(
+          title
+        )}. Include key details, context, and any relevant updates. Do not include any additional formatting or text beyond the summary itself.`,
+    },
+  ],
+};
@@ -0,0 +1,28 @@
+import { JsonSchemaResponseFormat, LlmRoute } from "@/app/lib/llm";
+
+// Typed variables each prompt kind accepts
+export interface PromptVariables {
+  latest: Record<string, never>;
+  "entity-news": { entity: string };
+  fixtures: { region: string; days: number };
+  summary: { title: string; excerpt?: string }; // Excerpt from feed articles
+}
+
+export type PromptKind = keyof PromptVariables;
+
+// Prompt kinds that produce news lists via /api/news
+export type NewsKind = Exclude<PromptKind, "summary">;
+
+export interface PromptTemplate<K extends PromptKind> {
+  kind: K;
+  version: string; // Bump by adding a new template rather than editing an old one
+  purpose: LlmRoute;
+  system: string;
+  maxTokens: number;
+  responseFormat?: JsonSchemaResponseFormat;
+  render(variables: PromptVariables[K]): string;
+}
+
+export type PromptTemplateMap = {
+  [K in PromptKind]: PromptTemplate<K>[];
+};
@@ -0,0 +1,65 @@
+import { createJsonBackend } from "./json";
+import { createMemoryBackend } from "./memory";
+import { StorageBackend, StorageBackendName } from "./types";
+
+export * from "./types";
+
+const BACKENDS: Record<StorageBackendName, () => Promise<StorageBackend>> = {
+  json: async () => createJsonBackend(),
+  // Loaded on demand, so better-sqlite3 and its native addon are only needed
+  // when the sqlite backend is actually used
+  sqlite: async () => (await import("./sqlite")).createSqliteBackend(),
+  memory: async () => createMemoryBackend(),
+};
+
+export function isStorageBackendName(
+  value: string
+): value is StorageBackendName {
+  return Object.prototype.hasOwnProperty.call(BACKENDS, value);
+}
+
+export function getStorageBackendName(): StorageBackendName {
+  const name = (process.env.STORAGE_BACKEND || "json").toLowerCase();
+  if (!isStorageBackendName(name)) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND "${name}". Expected one of: ${Object.keys(
+        BACKENDS
+      ).join(", ")}`
+    );
+  }
+  return name;
+}
+
+export function createStorageBackend(
+  name: StorageBackendName
+): Promise<StorageBackend> {
+  return BACKENDS[name]();
+}
+
+let cachedStorage: Promise<StorageBackend> | null = null;
+
+// Backend chosen by STORAGE_BACKEND, created once per process
+export function getStorage(): Promise<StorageBackend> {
+  if (!cachedStorage) {
+    cachedStorage = createStorageBackend(getStorageBackendName());
+  }
+  return cachedStorage;
+}
+
+// Copy every document from one backend to another, overwriting documents of
+// the same name. Returns the names that were copied
+export async function migrateStorage(
+  from: StorageBackend,
+  to: StorageBackend,
+  onDocument?: (name: string) => void
+): Promise<string[]> {
+  const copied: string[] = [];
+  for (const name of await from.list()) {
+    const value = await from.readRaw(name);
+    if (value === undefined) continue;
+    await to.writeRaw(name, value);
+    copied.push(name);
+    onDocument?.(name);
+  }
+  return copied;
+}
@@ -0,0 +1,184 @@
+import fs from "fs";
+import path from "path";
+import { withMutex } from "./mutex";
+import { DocumentSpec, StorageBackend } from "./types";
+
+// One JSON file per document. Writers are serialized in-process with a mutex
+// and across processes with a lock file, and each write swaps the new file in
+// atomically (temp file + rename) after keeping a backup of the old one
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 25;
+const STALE_LOCK_MS = 30000; // A lock this old was left by a crashed process
+
+const storageDir = path.resolve(
+  process.cwd(),
+  process.env.STORAGE_JSON_DIR || "data"
+);
+
+// Documents that predate the storage layer keep their original locations
+const FILE_OVERRIDES: Record<string, string | undefined> = {
+  subscriptions: process.env.SUBSCRIPTIONS_FILE || "subscriptions.json",
+  articles: process.env.ARTICLES_FILE,
+};
+
+// "subscriptions/<user>" is stored as <dir>/subscriptions/<user>.json
+function documentFile(name: string): string {
+  const override = FILE_OVERRIDES[name];
+  if (override) return path.resolve(process.cwd(), override);
+  const segments = name.split("/").map(encodeURIComponent);
+  return `${path.join(storageDir, ...segments)}.json`;
+}
+
+function listDocumentFiles(dir: string, prefix: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const name = decodeURIComponent(entry.name.replace(/\.json$/, ""));
+    if (entry.isDirectory()) {
+      return listDocumentFiles(path.join(dir, entry.name), `${prefix}${name}/`);
+    }
+    return entry.name.endsWith(".json") ? [`${prefix}${name}`] : [];
+  });
+}
+
+function parseFile(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+// Load and validate a document, falling back to the backup if it is corrupt
+function load<T>(spec: DocumentSpec<T>): T {
+  const file = documentFile(spec.name);
+  if (!fs.existsSync(file)) {
+    return spec.empty();
+  }
+
+  const current = spec.validate(parseFile(file));
+  if (current) return current;
+
+  const backupFile = `${file}.bak`;
+  const backup = fs.existsSync(backupFile)
+    ? spec.validate(parseFile(backupFile))
+    : null;
+  // Move the broken file aside for inspection and put the backup in its place,
+  // so later reads don't trip over it again
+  const corruptCopy = `${file}.corrupt-${Date.now()}`;
+  try {
+    fs.renameSync(file, corruptCopy);
+    if (backup) fs.copyFileSync(backupFile, file);
+  } catch {
+    // Recovery is best effort; the next write replaces the file anyway
+  }
+  console.error("Stored document is corrupt:", {
+    file,
+    preservedAs: corruptCopy,
+    recoveredFromBackup: !!backup,
+  });
+  return backup || spec.empty();
+}
+
+// Write to a temp file, flush it, back up the current file, then rename over
+// it so readers never see a half-written file
+function writeAtomically(file: string, value: unknown, backup: boolean): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+  const fd = fs.openSync(tempFile, "w");
+  try {
+    fs.writeFileSync(fd, JSON.stringify(value, null, 2));
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  if (backup && fs.existsSync(file)) {
+    fs.copyFileSync(file, `${file}.bak`);
+  }
+  fs.renameSync(tempFile, file);
+}
+
+async function acquireFileLock(lockFile: string): Promise<void> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (true) {
+    try {
+      fs.mkdirSync(path.dirname(lockFile), { recursive: true });
+      fs.writeFileSync(lockFile, String(process.pid), { flag: "wx" });
+      return;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+
+      try {
+        if (Date.now() - fs.statSync(lockFile).mtimeMs > STALE_LOCK_MS) {
+          fs.unlinkSync(lockFile);
+          continue;
+        }
+      } catch {
+        continue; // The lock disappeared between the two calls; try again
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${lockFile}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+}
+
+function releaseFileLock(lockFile: string): void {
+  try {
+    fs.unlinkSync(lockFile);
+  } catch {
+    // Already gone
+  }
+}
+
+function withFileLock<T>(file: string, task: () => T): Promise<T> {
+  return withMutex(`json:${file}`, async () => {
+    const lockFile = `${file}.lock`;
+    await acquireFileLock(lockFile);
+    try {
+      return task();
+    } finally {
+      releaseFileLock(lockFile);
+    }
+  });
+}
+
+export function createJsonBackend(): StorageBackend {
+  return {
+    name: "json",
+    async read(spec) {
+      return load(spec);
+    },
+    update(spec, mutate) {
+      const file = documentFile(spec.name);
+      return withFileLock(file, () => {
+        const value = load(spec);
+        mutate(value);
+        // Only back up a file that still validates, so a good backup is never
+        // replaced by a bad one
+        writeAtomically(file, value, !!spec.validate(parseFile(file)));
+        return value;
+      });
+    },
+    async list() {
+      const names = Object.keys(FILE_OVERRIDES).filter((name) =>
+        fs.existsSync(documentFile(name))
+      );
+      if (fs.existsSync(storageDir)) {
+        listDocumentFiles(storageDir, "").forEach((name) => {
+          if (!names.includes(name)) names.push(name);
+        });
+      }
+      return names;
+    },
+    async readRaw(name) {
+      const file = documentFile(name);
+      return fs.existsSync(file) ? parseFile(file) : undefined;
+    },
+    writeRaw(name, value) {
+      const file = documentFile(name);
+      return withFileLock(file, () => writeAtomically(file, value, true));
+    },
+  };
+}
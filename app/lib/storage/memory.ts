@@ -0,0 +1,45 @@
+import { withMutex } from "./mutex";
+import { DocumentSpec, StorageBackend } from "./types";
+
+// Documents are kept serialized so callers can't mutate stored state through
+// a returned object. Nothing survives a restart; meant for read-only or
+// serverless deployments and for trying things out
+const globalForMemory = globalThis as unknown as {
+  memoryStorage?: Map<string, string>;
+};
+
+const documents = globalForMemory.memoryStorage || new Map<string, string>();
+globalForMemory.memoryStorage = documents;
+
+function load<T>(spec: DocumentSpec<T>): T {
+  const raw = documents.get(spec.name);
+  if (raw === undefined) return spec.empty();
+  return spec.validate(JSON.parse(raw)) || spec.empty();
+}
+
+export function createMemoryBackend(): StorageBackend {
+  return {
+    name: "memory",
+    async read(spec) {
+      return load(spec);
+    },
+    update(spec, mutate) {
+      return withMutex(`memory:${spec.name}`, async () => {
+        const value = load(spec);
+        mutate(value);
+        documents.set(spec.name, JSON.stringify(value));
+        return value;
+      });
+    },
+    async list() {
+      return Array.from(documents.keys());
+    },
+    async readRaw(name) {
+      const raw = documents.get(name);
+      return raw === undefined ? undefined : JSON.parse(raw);
+    },
+    async writeRaw(name, value) {
+      documents.set(name, JSON.stringify(value));
+    },
+  };
+}
@@ -0,0 +1,15 @@
+// In-process mutex per document: each writer waits for the previous one to
+// finish. Kept on globalThis so server actions and route handlers share it
+const globalForMutex = globalThis as unknown as {
+  storageQueues?: Map<string, Promise<unknown>>;
+};
+
+const queues = globalForMutex.storageQueues || new Map();
+globalForMutex.storageQueues = queues;
+
+export function withMutex<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = queues.get(key) || Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  queues.set(key, run);
+  return run;
+}
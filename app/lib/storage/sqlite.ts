@@ -0,0 +1,108 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import { DocumentSpec, StorageBackend } from "./types";
+
+// All documents in one table of a SQLite file. better-sqlite3 is synchronous,
+// so an update can't interleave with another in this process, and the
+// IMMEDIATE transaction keeps other processes out while it runs
+
+const databaseFile = path.resolve(
+  process.cwd(),
+  process.env.STORAGE_SQLITE_FILE || path.join("data", "storage.db")
+);
+
+const globalForSqlite = globalThis as unknown as {
+  sqliteStorage?: Database.Database;
+};
+
+function getDatabase(): Database.Database {
+  if (!globalForSqlite.sqliteStorage) {
+    fs.mkdirSync(path.dirname(databaseFile), { recursive: true });
+    const db = new Database(databaseFile);
+    db.pragma("journal_mode = WAL");
+    db.pragma("busy_timeout = 5000");
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS documents (
+        name TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`
+    );
+    globalForSqlite.sqliteStorage = db;
+  }
+  return globalForSqlite.sqliteStorage;
+}
+
+// A row that isn't valid JSON reads as missing, like a corrupt file in the
+// json backend, so one bad row doesn't break every route that reads it
+function readRow(name: string): unknown {
+  const row = getDatabase()
+    .prepare("SELECT value FROM documents WHERE name = ?")
+    .get(name) as { value: string } | undefined;
+  if (!row) return undefined;
+  try {
+    return JSON.parse(row.value);
+  } catch (error: unknown) {
+    console.error("Stored document is corrupt:", {
+      message: error instanceof Error ? error.message : String(error),
+      database: databaseFile,
+      document: name,
+    });
+    return undefined;
+  }
+}
+
+function writeRow(name: string, value: unknown): void {
+  getDatabase()
+    .prepare(
+      `INSERT INTO documents (name, value, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+    )
+    .run(name, JSON.stringify(value), new Date().toISOString());
+}
+
+function load<T>(spec: DocumentSpec<T>): T {
+  const raw = readRow(spec.name);
+  if (raw === undefined) return spec.empty();
+
+  const value = spec.validate(raw);
+  if (!value) {
+    console.error("Stored document is invalid:", {
+      database: databaseFile,
+      document: spec.name,
+    });
+  }
+  return value || spec.empty();
+}
+
+export function createSqliteBackend(): StorageBackend {
+  return {
+    name: "sqlite",
+    async read(spec) {
+      return load(spec);
+    },
+    async update(spec, mutate) {
+      return getDatabase()
+        .transaction(() => {
+          const value = load(spec);
+          mutate(value);
+          writeRow(spec.name, value);
+          return value;
+        })
+        .immediate();
+    },
+    async list() {
+      const rows = getDatabase()
+        .prepare("SELECT name FROM documents ORDER BY name")
+        .all() as { name: string }[];
+      return rows.map((row) => row.name);
+    },
+    async readRaw(name) {
+      return readRow(name);
+    },
+    async writeRaw(name, value) {
+      writeRow(name, value);
+    },
+  };
+}
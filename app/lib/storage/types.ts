@@ -0,0 +1,22 @@
+export type StorageBackendName = "json" | "sqlite" | "memory";
+
+// A named JSON document (the subscriptions, the article archive, ...) and how
+// to check what comes back from storage
+export interface DocumentSpec<T> {
+  name: string;
+  validate(data: unknown): T | null;
+  empty(): T;
+}
+
+export interface StorageBackend {
+  name: StorageBackendName;
+  // Missing or invalid documents read as spec.empty()
+  read<T>(spec: DocumentSpec<T>): Promise<T>;
+  // Read-modify-write without interleaving other writers. The mutator edits
+  // the value in place
+  update<T>(spec: DocumentSpec<T>, mutate: (value: T) => void): Promise<T>;
+  // Untyped access for copying documents between backends
+  list(): Promise<string[]>;
+  readRaw(name: string): Promise<unknown>;
+  writeRaw(name: string, value: unknown): Promise<void>;
+}
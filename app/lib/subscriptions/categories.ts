@@ -0,0 +1,64 @@
+import { resolveEntity } from "@/app/lib/entities/registry";
+
+// Category names shared by the server and the pages. Kept free of server-only
+// imports so client components can use these helpers too
+
+export type SubscriptionCategory = "league" | "team" | "player" | "tournament";
+
+export type BuiltInListKey = "leagues" | "teams" | "players" | "tournaments";
+
+// Which list each built-in category is stored in
+export const CATEGORY_KEYS: Record<SubscriptionCategory, BuiltInListKey> = {
+  league: "leagues",
+  team: "teams",
+  player: "players",
+  tournament: "tournaments",
+};
+
+export const MAX_CATEGORY_LENGTH = 40;
+
+// Custom categories are object keys; these would clash with Object.prototype
+const RESERVED_NAMES = ["__proto__", "constructor", "prototype"];
+
+export function isSubscriptionCategory(
+  value: string
+): value is SubscriptionCategory {
+  return Object.prototype.hasOwnProperty.call(CATEGORY_KEYS, value);
+}
+
+// Canonical form of a category name: a built-in category (plural forms
+// included), or a trimmed, lowercased custom name. Null if unusable
+export function normalizeCategory(value: string): string | null {
+  const name = value
+    .normalize("NFKC")
+    .trim()
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+  if (!name || name.length > MAX_CATEGORY_LENGTH) return null;
+  if (RESERVED_NAMES.includes(name) || /[\u0000-\u001f\u007f<>]/.test(name)) {
+    return null;
+  }
+
+  const builtIn = (Object.keys(CATEGORY_KEYS) as SubscriptionCategory[]).find(
+    (category) => category === name || CATEGORY_KEYS[category] === name
+  );
+  return builtIn || name;
+}
+
+// What a subscription request stores. Known entities get their canonical name
+// and, unless a custom category was picked, their own category; so "serie a"
+// filed as a team becomes the league "Serie A". category must already be
+// normalized
+export function resolveSubscription(
+  term: string,
+  category: string
+): { term: string; category: string } {
+  const entity = resolveEntity(term);
+  if (!entity) {
+    return { term: term.trim().replace(/\s+/g, " "), category };
+  }
+  return {
+    term: entity.name,
+    category: isSubscriptionCategory(category) ? entity.category : category,
+  };
+}
@@ -0,0 +1,109 @@
+import crypto from "crypto";
+import { DocumentSpec, getStorage } from "@/app/lib/storage";
+import { SubscriptionSettings } from "./settings";
+
+// Append-only log of subscription changes, one document per user. Undoing a
+// change appends the inverse events instead of removing anything
+
+export type ChangeType = "subscribe" | "unsubscribe" | "rename";
+
+export interface SubscriptionChange {
+  type: ChangeType;
+  term: string;
+  category: string;
+  previousTerm?: string; // For renames
+  // For unsubscribes: the follow's settings, so undo can bring them back
+  settings?: SubscriptionSettings;
+}
+
+// "import" also covers the legacy subscriptions claimed by the first account
+export type ChangeSource = "user" | "import" | "undo";
+
+export interface HistoryEvent extends SubscriptionChange {
+  id: string;
+  // Events from one action share a batch; undo works on whole batches
+  batch: string;
+  at: string;
+  source: ChangeSource;
+  undoOf?: string; // The batch an undo event reverses
+}
+
+const CHANGE_TYPES: ChangeType[] = ["subscribe", "unsubscribe", "rename"];
+
+function isHistoryEvent(value: unknown): value is HistoryEvent {
+  if (!value || typeof value !== "object") return false;
+  const event = value as Record<string, unknown>;
+  return (
+    typeof event.id === "string" &&
+    typeof event.batch === "string" &&
+    typeof event.at === "string" &&
+    typeof event.term === "string" &&
+    typeof event.category === "string" &&
+    CHANGE_TYPES.includes(event.type as ChangeType)
+  );
+}
+
+function historyDocument(userId: string): DocumentSpec<HistoryEvent[]> {
+  return {
+    name: `subscriptions-history/${userId}`,
+    validate: (data) =>
+      Array.isArray(data) && data.every(isHistoryEvent) ? data : null,
+    empty: () => [],
+  };
+}
+
+export async function getHistory(userId: string): Promise<HistoryEvent[]> {
+  const storage = await getStorage();
+  return storage.read(historyDocument(userId));
+}
+
+// Record the changes from one action as a batch. Logging failures are
+// reported but don't undo the change itself
+export async function appendHistory(
+  userId: string,
+  changes: SubscriptionChange[],
+  source: ChangeSource,
+  undoOf?: string
+): Promise<HistoryEvent[]> {
+  if (changes.length === 0) return [];
+
+  const batch = crypto.randomUUID();
+  const at = new Date().toISOString();
+  const events: HistoryEvent[] = changes.map((change) => ({
+    ...change,
+    id: crypto.randomUUID(),
+    batch,
+    at,
+    source,
+    ...(undoOf ? { undoOf } : {}),
+  }));
+
+  try {
+    const storage = await getStorage();
+    await storage.update(historyDocument(userId), (history) => {
+      history.push(...events);
+    });
+  } catch (error: unknown) {
+    console.error("Error recording subscription history:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      userId,
+    });
+  }
+  return events;
+}
+
+// The most recent batch that hasn't been undone. Undo events themselves are
+// skipped, so repeated undos keep stepping back
+export function findUndoableBatch(history: HistoryEvent[]): HistoryEvent[] {
+  const undone = new Set(
+    history.map((event) => event.undoOf).filter(Boolean) as string[]
+  );
+  for (let i = history.length - 1; i >= 0; i--) {
+    const event = history[i];
+    if (event.source !== "undo" && !undone.has(event.batch)) {
+      return history.filter((other) => other.batch === event.batch);
+    }
+  }
+  return [];
+}
@@ -0,0 +1,91 @@
+// Stored subscription documents carry a schema version. Older documents are
+// upgraded one step at a time when they are read, and the next write stores
+// them at the current version. `npm run subscriptions:migrate` upgrades every
+// stored document at once
+
+export const SUBSCRIPTIONS_VERSION = 3;
+
+// Raised for documents this code can't read, e.g. ones written by a newer
+// version. Reads fail instead of treating the document as corrupt
+export class SchemaVersionError extends Error {
+  version: unknown;
+
+  constructor(message: string, version: unknown) {
+    super(message);
+    this.name = "SchemaVersionError";
+    this.version = version;
+  }
+}
+
+type RawDocument = Record<string, unknown>;
+
+interface Migration {
+  to: number;
+  description: string;
+  up(document: RawDocument): RawDocument;
+}
+
+// Lists were sometimes missing (tournaments came later) or written as null
+function withDefault(document: RawDocument, key: string, value: unknown) {
+  return document[key] === undefined || document[key] === null
+    ? { ...document, [key]: value }
+    : document;
+}
+
+// Documents without a version are version 1: leagues, teams and players, and
+// tournaments in files written after it was added
+const MIGRATIONS: Migration[] = [
+  {
+    to: 2,
+    description: "Add missing built-in lists and custom categories",
+    up: (document) =>
+      ["leagues", "teams", "players", "tournaments"].reduce(
+        (upgraded, key) => withDefault(upgraded, key, []),
+        withDefault(document, "custom", {})
+      ),
+  },
+  {
+    to: 3,
+    description: "Add per-subscription settings",
+    up: (document) => withDefault(document, "settings", {}),
+  },
+];
+
+export function schemaVersion(document: RawDocument): number {
+  const version = document.version ?? 1;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    throw new SchemaVersionError(
+      `Invalid subscriptions schema version: ${String(version)}`,
+      version
+    );
+  }
+  if (version > SUBSCRIPTIONS_VERSION) {
+    throw new SchemaVersionError(
+      `Subscriptions were saved with schema version ${version}, newer than ` +
+        `this app supports (${SUBSCRIPTIONS_VERSION})`,
+      version
+    );
+  }
+  return version;
+}
+
+// Bring a parsed document up to the current version. Returns null for
+// anything that isn't a document at all, and the steps that were applied
+export function migrateSubscriptions(
+  data: unknown
+): { document: RawDocument; from: number; applied: string[] } | null {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+  const from = schemaVersion(data as RawDocument);
+
+  let document = data as RawDocument;
+  const applied: string[] = [];
+  MIGRATIONS.filter((migration) => migration.to > from).forEach((migration) => {
+    document = { ...migration.up(document), version: migration.to };
+    applied.push(`v${migration.to}: ${migration.description}`);
+  });
+  return { document, from, applied };
+}
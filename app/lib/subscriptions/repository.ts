@@ -0,0 +1,657 @@
+import { hasUsers } from "@/app/lib/auth/users";
+import {
+  entityKey,
+  isSameEntity,
+  isValidEntityName,
+  resolveEntity,
+} from "@/app/lib/entities/registry";
+import { DocumentSpec, getStorage } from "@/app/lib/storage";
+import { withMutex } from "@/app/lib/storage/mutex";
+import {
+  appendHistory,
+  ChangeSource,
+  findUndoableBatch,
+  getHistory,
+  HistoryEvent,
+  SubscriptionChange,
+} from "./history";
+import {
+  BuiltInListKey,
+  CATEGORY_KEYS,
+  isSubscriptionCategory,
+  normalizeCategory,
+  SubscriptionCategory,
+  resolveSubscription,
+} from "./categories";
+import { migrateSubscriptions, SUBSCRIPTIONS_VERSION } from "./migrations";
+import {
+  defaultSettings,
+  isMuted,
+  parseSettings,
+  settingsKey,
+  SubscriptionSettings,
+} from "./settings";
+
+// The single place subscriptions are read and written. Each user has their
+// own document; storage, locking and crash safety are up to the configured
+// backend (see app/lib/storage)
+
+export type Subscriptions = Record<BuiltInListKey, string[]> & {
+  version: number; // Schema version, see migrations.ts
+  // User-defined categories ("coaches", "stadiums", ...) keyed by name
+  custom: Record<string, string[]>;
+  // Priority, mute and keyword filters, by settingsKey. Follows without an
+  // entry use the defaults
+  settings: Record<string, SubscriptionSettings>;
+};
+
+export function emptySubscriptions(): Subscriptions {
+  return {
+    version: SUBSCRIPTIONS_VERSION,
+    leagues: [],
+    teams: [],
+    players: [],
+    tournaments: [],
+    custom: {},
+    settings: {},
+  };
+}
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+// Known entities under their canonical name, without duplicates like
+// "Serie A"/"serie a". Older files hold names in whatever form they were typed
+function canonicalList(list: string[]): string[] {
+  return list
+    .map((term) => resolveEntity(term)?.name || term)
+    .filter(
+      (term, index, terms) =>
+        terms.findIndex((other) => isSameEntity(other, term)) === index
+    );
+}
+
+// Validate parsed JSON after upgrading it to the current schema version.
+// Names are canonicalized on the way in
+function validateSubscriptions(data: unknown): Subscriptions | null {
+  const migrated = migrateSubscriptions(data);
+  if (!migrated) return null;
+  const raw = migrated.document;
+  const subscriptions = emptySubscriptions();
+
+  for (const key of Object.values(CATEGORY_KEYS)) {
+    const list = raw[key];
+    if (!isStringList(list)) return null;
+    subscriptions[key] = canonicalList(list);
+  }
+
+  if (
+    !raw.custom ||
+    typeof raw.custom !== "object" ||
+    Array.isArray(raw.custom) ||
+    !Object.values(raw.custom).every(isStringList)
+  ) {
+    return null;
+  }
+  Object.entries(raw.custom as Record<string, string[]>).forEach(
+    ([category, list]) => {
+      subscriptions.custom[category] = canonicalList(list);
+    }
+  );
+
+  // Settings that no longer parse are dropped rather than failing the document
+  if (
+    raw.settings &&
+    typeof raw.settings === "object" &&
+    !Array.isArray(raw.settings)
+  ) {
+    Object.entries(raw.settings as Record<string, unknown>).forEach(
+      ([key, value]) => {
+        const settings = parseSettings(value);
+        if (typeof settings !== "string")
+          subscriptions.settings[key] = settings;
+      }
+    );
+  }
+  return subscriptions;
+}
+
+// Every follow as a (term, category) pair
+export function subscriptionEntries(
+  subscriptions: Subscriptions
+): { term: string; category: string }[] {
+  const entries: { term: string; category: string }[] = [];
+  (Object.keys(CATEGORY_KEYS) as SubscriptionCategory[]).forEach((category) =>
+    subscriptions[CATEGORY_KEYS[category]].forEach((term) =>
+      entries.push({ term, category })
+    )
+  );
+  Object.keys(subscriptions.custom).forEach((category) =>
+    subscriptions.custom[category].forEach((term) =>
+      entries.push({ term, category })
+    )
+  );
+  return entries;
+}
+
+// The list a normalized category lives in, created on demand for custom ones
+function listFor(subscriptions: Subscriptions, category: string): string[] {
+  if (isSubscriptionCategory(category)) {
+    return subscriptions[CATEGORY_KEYS[category]];
+  }
+  subscriptions.custom[category] = subscriptions.custom[category] || [];
+  return subscriptions.custom[category];
+}
+
+// Subscriptions from before accounts existed, shared by everyone
+const LEGACY_DOCUMENT = "subscriptions";
+
+function subscriptionsSpec(name: string): DocumentSpec<Subscriptions> {
+  return { name, validate: validateSubscriptions, empty: emptySubscriptions };
+}
+
+function subscriptionsDocument(
+  userId: string | null
+): DocumentSpec<Subscriptions> {
+  return subscriptionsSpec(
+    userId ? `subscriptions/${userId}` : LEGACY_DOCUMENT
+  );
+}
+
+export async function getSubscriptions(
+  userId: string
+): Promise<Subscriptions> {
+  const storage = await getStorage();
+  return storage.read(subscriptionsDocument(userId));
+}
+
+// Give the pre-account subscriptions to a user (the first account created).
+// The legacy document is left in place as a record of the old data
+export async function claimLegacySubscriptions(userId: string): Promise<void> {
+  const storage = await getStorage();
+  const legacy = await storage.read(subscriptionsDocument(null));
+  await applyChanges(userId, "import", (subscriptions) => {
+    subscriptionEntries(legacy).forEach(({ term, category }) =>
+      addTerm(subscriptions, term, category)
+    );
+  });
+}
+
+// Names of every stored subscriptions document: the legacy one and each user's
+async function storedSubscriptionNames(): Promise<string[]> {
+  const storage = await getStorage();
+  return (await storage.list()).filter(
+    (name) => name === LEGACY_DOCUMENT || name.startsWith("subscriptions/")
+  );
+}
+
+// Every name anyone follows, in any category, once per entity. Names whose
+// follows are all muted are left out, and so is the legacy document once the
+// first account has claimed it: it is only a record from then on
+export async function listFollowedTerms(): Promise<string[]> {
+  const terms = new Map<string, { term: string; active: boolean }>();
+  const legacyClaimed = await hasUsers();
+  const storage = await getStorage();
+  for (const name of await storedSubscriptionNames()) {
+    if (legacyClaimed && name === LEGACY_DOCUMENT) continue;
+    const subscriptions = await storage.read(subscriptionsSpec(name));
+    subscriptionEntries(subscriptions).forEach(({ term, category }) => {
+      const key = resolveEntity(term)?.id || entityKey(term);
+      const settings = subscriptions.settings[settingsKey(term, category)];
+      const active = !settings || !isMuted(settings);
+      const existing = terms.get(key);
+      terms.set(key, {
+        term: existing?.term || term,
+        active: !!existing?.active || active,
+      });
+    });
+  }
+  return Array.from(terms.values())
+    .filter(({ active }) => active)
+    .map(({ term }) => term);
+}
+
+export interface SchemaUpgrade {
+  name: string;
+  from: number;
+  applied: string[]; // Migration steps, oldest first
+}
+
+// Upgrade every stored subscriptions document (the legacy one and each
+// user's) to the current schema version. Reads already upgrade in memory;
+// this writes the result back. With dryRun nothing is written
+export async function upgradeStoredSubscriptions(
+  dryRun: boolean,
+  onDocument?: (upgrade: SchemaUpgrade) => void
+): Promise<SchemaUpgrade[]> {
+  const storage = await getStorage();
+  const upgrades: SchemaUpgrade[] = [];
+  for (const name of await storedSubscriptionNames()) {
+    const migrated = migrateSubscriptions(await storage.readRaw(name));
+    if (!migrated || migrated.applied.length === 0) continue;
+
+    const upgrade = { name, from: migrated.from, applied: migrated.applied };
+    if (!dryRun) {
+      // An empty update rewrites the document at the current version
+      await storage.update(subscriptionsSpec(name), () => {});
+    }
+    upgrades.push(upgrade);
+    onDocument?.(upgrade);
+  }
+  return upgrades;
+}
+
+// Read-modify-write without losing concurrent updates. The mutator edits the
+// object in place
+export async function updateSubscriptions(
+  userId: string,
+  mutate: (subscriptions: Subscriptions) => void
+): Promise<Subscriptions> {
+  try {
+    const storage = await getStorage();
+    return await storage.update(subscriptionsDocument(userId), mutate);
+  } catch (error: unknown) {
+    console.error("Error saving subscriptions:", {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      userId,
+    });
+    throw new Error(
+      `Failed to save subscriptions: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+// What changed between two versions, as subscribe/unsubscribe events
+function diffSubscriptions(
+  before: Subscriptions,
+  after: Subscriptions
+): SubscriptionChange[] {
+  const beforeEntries = subscriptionEntries(before);
+  const afterEntries = subscriptionEntries(after);
+  const missingFrom = (
+    entries: { term: string; category: string }[],
+    entry: { term: string; category: string }
+  ) =>
+    !entries.some(
+      (other) => other.category === entry.category && other.term === entry.term
+    );
+
+  return [
+    ...beforeEntries
+      .filter((entry) => missingFrom(afterEntries, entry))
+      .map((entry) => {
+        const settings =
+          before.settings[settingsKey(entry.term, entry.category)];
+        return {
+          type: "unsubscribe" as const,
+          ...entry,
+          ...(settings ? { settings } : {}),
+        };
+      }),
+    ...afterEntries
+      .filter((entry) => missingFrom(beforeEntries, entry))
+      .map((entry) => ({ type: "subscribe" as const, ...entry })),
+  ];
+}
+
+// A user's logged changes run one at a time in this process, from reading
+// the history to recording the new events. Subscriptions and history are
+// separate documents, so the storage lock alone doesn't cover both
+function withChangeLock<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  return withMutex(`subscription-changes:${userId}`, task);
+}
+
+// Run an update and log what it changed as one history batch. The mutator
+// may describe the changes itself (renames); otherwise they are diffed.
+// Callers must hold the change lock
+async function recordChanges(
+  userId: string,
+  source: ChangeSource,
+  mutate: (subscriptions: Subscriptions) => SubscriptionChange[] | void,
+  undoOf?: string
+): Promise<{ subscriptions: Subscriptions; changes: HistoryEvent[] }> {
+  let changes: SubscriptionChange[] = [];
+  const subscriptions = await updateSubscriptions(userId, (current) => {
+    const before: Subscriptions = JSON.parse(JSON.stringify(current));
+    changes = mutate(current) || diffSubscriptions(before, current);
+  });
+  return {
+    subscriptions,
+    changes: await appendHistory(userId, changes, source, undoOf),
+  };
+}
+
+function applyChanges(
+  userId: string,
+  source: ChangeSource,
+  mutate: (subscriptions: Subscriptions) => SubscriptionChange[] | void
+): Promise<{ subscriptions: Subscriptions; changes: HistoryEvent[] }> {
+  return withChangeLock(userId, () => recordChanges(userId, source, mutate));
+}
+
+function addTerm(
+  subscriptions: Subscriptions,
+  term: string,
+  category: string
+): boolean {
+  const list = listFor(subscriptions, category);
+  if (list.some((item) => isSameEntity(item, term))) return false;
+  list.push(term);
+  return true;
+}
+
+// Removes every spelling of the term, e.g. "serie a" along with "Serie A".
+// Returns the follow's settings, if it had any
+function removeTerm(
+  subscriptions: Subscriptions,
+  term: string,
+  category: string
+): SubscriptionSettings | undefined {
+  const key = settingsKey(term, category);
+  const settings = subscriptions.settings[key];
+  delete subscriptions.settings[key];
+  if (isSubscriptionCategory(category)) {
+    const listKey = CATEGORY_KEYS[category];
+    subscriptions[listKey] = subscriptions[listKey].filter(
+      (item) => !isSameEntity(item, term)
+    );
+    return settings;
+  }
+  const remaining = (subscriptions.custom[category] || []).filter(
+    (item) => !isSameEntity(item, term)
+  );
+  // A custom category disappears with its last subscription
+  if (remaining.length > 0) {
+    subscriptions.custom[category] = remaining;
+  } else {
+    delete subscriptions.custom[category];
+  }
+  return settings;
+}
+
+// category must already be normalized (see normalizeCategory). Returns what
+// was stored, which may differ from the request (see resolveSubscription)
+export async function addSubscription(
+  userId: string,
+  term: string,
+  category: string
+): Promise<{ term: string; category: string }> {
+  const resolved = resolveSubscription(term, category);
+  await applyChanges(userId, "user", (subscriptions) => {
+    addTerm(subscriptions, resolved.term, resolved.category);
+  });
+  return resolved;
+}
+
+export async function removeSubscription(
+  userId: string,
+  term: string,
+  category: string
+): Promise<Subscriptions> {
+  const { subscriptions } = await applyChanges(userId, "user", (current) => {
+    removeTerm(current, term, category);
+  });
+  return subscriptions;
+}
+
+// Rename a follow in place, e.g. to fix a typo. The new name is resolved
+// like a new subscription but stays in the same category. Returns the stored
+// name, or null if the term isn't followed
+export async function renameSubscription(
+  userId: string,
+  term: string,
+  category: string,
+  newTerm: string
+): Promise<string | null> {
+  const resolvedName = resolveEntity(newTerm)?.name || newTerm.trim();
+  let renamed = false;
+  await applyChanges(userId, "user", (subscriptions) => {
+    const list = listFor(subscriptions, category);
+    const index = list.findIndex((item) => isSameEntity(item, term));
+    if (index === -1) {
+      removeTerm(subscriptions, term, category); // Drops an empty custom list
+      return [];
+    }
+    const previousTerm = list[index];
+    if (previousTerm === resolvedName) {
+      renamed = true;
+      return [];
+    }
+    // Renaming onto a name that is already followed just merges the two
+    const duplicate = list.some(
+      (item, other) => other !== index && isSameEntity(item, resolvedName)
+    );
+    if (duplicate) {
+      list.splice(index, 1);
+      delete subscriptions.settings[settingsKey(previousTerm, category)];
+    } else {
+      list[index] = resolvedName;
+      moveSettings(subscriptions, category, previousTerm, resolvedName);
+    }
+    renamed = true;
+    return [{ type: "rename", term: resolvedName, category, previousTerm }];
+  });
+  return renamed ? resolvedName : null;
+}
+
+// Reverse the most recent change that hasn't been undone yet. Returns the
+// events it recorded, empty when there is nothing to undo. The batch is
+// picked under the change lock, so concurrent undos step back one batch each
+export function undoLastChange(
+  userId: string
+): Promise<{ subscriptions: Subscriptions; changes: HistoryEvent[] }> {
+  return withChangeLock(userId, () => undoLocked(userId));
+}
+
+async function undoLocked(
+  userId: string
+): Promise<{ subscriptions: Subscriptions; changes: HistoryEvent[] }> {
+  const batch = findUndoableBatch(await getHistory(userId));
+  if (batch.length === 0) {
+    return { subscriptions: await getSubscriptions(userId), changes: [] };
+  }
+
+  return recordChanges(
+    userId,
+    "undo",
+    (subscriptions) => {
+      const inverse: SubscriptionChange[] = [];
+      // Newest first, so a batch unwinds in reverse order
+      [...batch].reverse().forEach((event) => {
+        if (event.type === "subscribe") {
+          const settings = removeTerm(
+            subscriptions,
+            event.term,
+            event.category
+          );
+          inverse.push({
+            ...pick(event),
+            type: "unsubscribe",
+            ...(settings ? { settings } : {}),
+          });
+        } else if (event.type === "unsubscribe") {
+          addTerm(subscriptions, event.term, event.category);
+          restoreSettings(subscriptions, event);
+          inverse.push({ ...pick(event), type: "subscribe" });
+        } else if (event.previousTerm) {
+          const list = listFor(subscriptions, event.category);
+          const index = list.findIndex((item) => item === event.term);
+          if (index === -1) {
+            addTerm(subscriptions, event.previousTerm, event.category);
+          } else {
+            list[index] = event.previousTerm;
+            moveSettings(
+              subscriptions,
+              event.category,
+              event.term,
+              event.previousTerm
+            );
+          }
+          inverse.push({
+            type: "rename",
+            term: event.previousTerm,
+            category: event.category,
+            previousTerm: event.term,
+          });
+        }
+      });
+      return inverse;
+    },
+    batch[0].batch
+  );
+}
+
+function pick({ term, category }: SubscriptionChange) {
+  return { term, category };
+}
+
+// Put back the settings an unsubscribe removed. Ones that no longer parse
+// (e.g. edited by hand) leave the follow at the defaults
+function restoreSettings(
+  subscriptions: Subscriptions,
+  event: SubscriptionChange
+): void {
+  if (!event.settings) return;
+  const settings = parseSettings(event.settings);
+  if (typeof settings === "string") return;
+  subscriptions.settings[settingsKey(event.term, event.category)] = settings;
+}
+
+// Keep a follow's settings when it is renamed
+function moveSettings(
+  subscriptions: Subscriptions,
+  category: string,
+  from: string,
+  to: string
+): void {
+  const fromKey = settingsKey(from, category);
+  const toKey = settingsKey(to, category);
+  const settings = subscriptions.settings[fromKey];
+  if (!settings || fromKey === toKey) return;
+  delete subscriptions.settings[fromKey];
+  subscriptions.settings[toKey] = settings;
+}
+
+// Replace the settings of a follow. Returns false if the term isn't
+// followed. Settings changes aren't part of the history
+export async function updateSubscriptionSettings(
+  userId: string,
+  term: string,
+  category: string,
+  settings: SubscriptionSettings
+): Promise<boolean> {
+  let found = false;
+  await updateSubscriptions(userId, (subscriptions) => {
+    const stored = listFor(subscriptions, category).find((item) =>
+      isSameEntity(item, term)
+    );
+    if (!stored) {
+      removeTerm(subscriptions, term, category); // Drops an empty custom list
+      return;
+    }
+    found = true;
+    subscriptions.settings[settingsKey(stored, category)] = settings;
+  });
+  return found;
+}
+
+// The settings that apply to news about an entity: those of every follow that
+// matches it, in any category. Empty when the entity isn't followed
+export async function settingsForEntity(
+  userId: string,
+  entity: string
+): Promise<
+  { term: string; category: string; settings: SubscriptionSettings }[]
+> {
+  const subscriptions = await getSubscriptions(userId);
+  return subscriptionEntries(subscriptions)
+    .filter(({ term }) => isSameEntity(term, entity))
+    .map((entry) => ({
+      ...entry,
+      settings:
+        subscriptions.settings[settingsKey(entry.term, entry.category)] ||
+        defaultSettings(),
+    }));
+}
+
+export type ImportMode = "merge" | "replace";
+
+// An import entry as it ended up: stored (after resolving), or why not
+export interface ImportResult {
+  term: string;
+  category: string;
+  reason?: string;
+}
+
+export interface ImportReport {
+  added: ImportResult[];
+  skipped: ImportResult[]; // Valid but already followed
+  rejected: ImportResult[]; // Invalid names or categories
+  subscriptions: Subscriptions;
+}
+
+// Apply imported entries in one update, so a failed import changes nothing.
+// "replace" starts from an empty set, settings included; "merge" adds to the
+// current one, and a follow that already has settings keeps its own
+export async function importSubscriptions(
+  userId: string,
+  entries: {
+    term: unknown;
+    category: unknown;
+    settings?: SubscriptionSettings;
+  }[],
+  mode: ImportMode
+): Promise<ImportReport> {
+  const report: Omit<ImportReport, "subscriptions"> = {
+    added: [],
+    skipped: [],
+    rejected: [],
+  };
+
+  const { subscriptions } = await applyChanges(userId, "import", (current) => {
+    if (mode === "replace") {
+      Object.assign(current, emptySubscriptions());
+    }
+
+    entries.forEach(({ term, category, settings }) => {
+      const entry = { term: String(term), category: String(category) };
+      if (typeof term !== "string" || !isValidEntityName(term)) {
+        report.rejected.push({ ...entry, reason: "Invalid name" });
+        return;
+      }
+      const normalized =
+        typeof category === "string" ? normalizeCategory(category) : null;
+      if (!normalized) {
+        report.rejected.push({ ...entry, reason: "Invalid category" });
+        return;
+      }
+
+      const resolved = resolveSubscription(term, normalized);
+      const added = addTerm(current, resolved.term, resolved.category);
+      const key = settingsKey(resolved.term, resolved.category);
+      if (settings && !current.settings[key]) {
+        current.settings[key] = settings;
+      }
+      if (!added) {
+        report.skipped.push({ ...resolved, reason: "Already followed" });
+        return;
+      }
+      report.added.push(resolved);
+    });
+
+    // listFor creates custom lists on demand; don't keep empty ones
+    Object.keys(current.custom).forEach((category) => {
+      if (current.custom[category].length === 0) {
+        delete current.custom[category];
+      }
+    });
+  });
+
+  return { ...report, subscriptions };
+}
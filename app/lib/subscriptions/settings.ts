@@ -0,0 +1,143 @@
+import { entityKey, resolveEntity } from "@/app/lib/entities/registry";
+
+// Per-subscription settings: how much a follow matters, whether it is muted
+// for now, and keywords its news must or must not mention. Client-safe, like
+// categories.ts
+
+export interface SubscriptionSettings {
+  priority: number; // MIN_PRIORITY to MAX_PRIORITY; higher ranks first
+  mutedUntil?: string; // ISO timestamp; no news for this follow until then
+  include: string[]; // Items must mention at least one of these, if any
+  exclude: string[]; // Items mentioning any of these are dropped
+}
+
+export const MIN_PRIORITY = 1;
+export const MAX_PRIORITY = 5;
+export const DEFAULT_PRIORITY = 3;
+export const MAX_KEYWORDS = 20;
+export const MAX_KEYWORD_LENGTH = 50;
+
+export function defaultSettings(): SubscriptionSettings {
+  return { priority: DEFAULT_PRIORITY, include: [], exclude: [] };
+}
+
+// Where a follow's settings are stored. Spellings of one entity share a key,
+// and the "/" keeps keys clear of Object.prototype names
+export function settingsKey(term: string, category: string): string {
+  return `${category}/${resolveEntity(term)?.id || entityKey(term)}`;
+}
+
+function parseKeywords(value: unknown, field: string): string[] | string {
+  if (value === undefined) return [];
+  if (
+    !Array.isArray(value) ||
+    !value.every((keyword) => typeof keyword === "string")
+  ) {
+    return `${field} must be a list of keywords`;
+  }
+  const keywords = (value as string[])
+    .map((keyword) => keyword.trim().replace(/\s+/g, " "))
+    .filter(
+      (keyword, index, all) =>
+        keyword &&
+        all.findIndex((other) => entityKey(other) === entityKey(keyword)) ===
+          index
+    );
+  if (keywords.length > MAX_KEYWORDS) {
+    return `${field} can have at most ${MAX_KEYWORDS} keywords`;
+  }
+  if (keywords.some((keyword) => keyword.length > MAX_KEYWORD_LENGTH)) {
+    return `Keywords can be at most ${MAX_KEYWORD_LENGTH} characters`;
+  }
+  return keywords;
+}
+
+// Settings from a request body or a stored document, or why they are
+// invalid. Missing fields take their defaults
+export function parseSettings(value: unknown): SubscriptionSettings | string {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "Settings must be an object";
+  }
+  const raw = value as Record<string, unknown>;
+
+  const priority = raw.priority ?? DEFAULT_PRIORITY;
+  if (
+    typeof priority !== "number" ||
+    !Number.isInteger(priority) ||
+    priority < MIN_PRIORITY ||
+    priority > MAX_PRIORITY
+  ) {
+    return `priority must be a whole number between ${MIN_PRIORITY} and ${MAX_PRIORITY}`;
+  }
+
+  const settings: SubscriptionSettings = { ...defaultSettings(), priority };
+  if (raw.mutedUntil !== undefined && raw.mutedUntil !== null) {
+    if (
+      typeof raw.mutedUntil !== "string" ||
+      isNaN(Date.parse(raw.mutedUntil))
+    ) {
+      return "mutedUntil must be a date";
+    }
+    settings.mutedUntil = new Date(raw.mutedUntil).toISOString();
+  }
+
+  const include = parseKeywords(raw.include, "include");
+  if (typeof include === "string") return include;
+  const exclude = parseKeywords(raw.exclude, "exclude");
+  if (typeof exclude === "string") return exclude;
+  return { ...settings, include, exclude };
+}
+
+export function isMuted(
+  settings: SubscriptionSettings,
+  now: Date = new Date()
+): boolean {
+  return (
+    !!settings.mutedUntil && Date.parse(settings.mutedUntil) > now.getTime()
+  );
+}
+
+// Whether a news item passes the keyword filters. Matching looks at the title
+// and the entities it mentions, ignoring case, accents and punctuation
+export function matchesKeywords(
+  item: { title: string; entities?: string[] },
+  settings: SubscriptionSettings
+): boolean {
+  const text = entityKey([item.title, ...(item.entities || [])].join(" "));
+  const mentions = (keyword: string) => {
+    const key = entityKey(keyword);
+    return !!key && text.includes(key);
+  };
+
+  if (settings.exclude.some(mentions)) return false;
+  return settings.include.length === 0 || settings.include.some(mentions);
+}
+
+// News for a followed entity, with the settings of the matching follows
+// applied. It is withheld only while every matching follow is muted, and
+// must pass the keyword filters of each unmuted one
+export function applySettings<T extends { title: string; entities?: string[] }>(
+  items: T[],
+  settings: SubscriptionSettings[],
+  now: Date = new Date()
+): { items: T[]; filtered: number; priority?: number; mutedUntil?: string } {
+  if (settings.length === 0) return { items, filtered: 0 };
+
+  const active = settings.filter((entry) => !isMuted(entry, now));
+  if (active.length === 0) {
+    // News comes back when the first mute runs out
+    const mutedUntil = settings
+      .map((entry) => entry.mutedUntil as string)
+      .sort()[0];
+    return { items: [], filtered: items.length, mutedUntil };
+  }
+
+  const kept = items.filter((item) =>
+    active.every((entry) => matchesKeywords(item, entry))
+  );
+  return {
+    items: kept,
+    filtered: items.length - kept.length,
+    priority: Math.max(...active.map((entry) => entry.priority)),
+  };
+}
@@ -0,0 +1,280 @@
+import { CATEGORY_KEYS, SubscriptionCategory } from "./categories";
+import { subscriptionEntries, Subscriptions } from "./repository";
+import { parseSettings, settingsKey, SubscriptionSettings } from "./settings";
+
+// Import/export formats. Our JSON format wraps the stored lists with a
+// marker and version; OPML groups follows into one outline per category
+
+export type TransferFormat = "json" | "opml";
+
+export const EXPORT_FORMAT_NAME = "football-news-subscriptions";
+export const EXPORT_FORMAT_VERSION = 1;
+
+// Refuse imports beyond these; a real set of follows is far smaller
+export const MAX_IMPORT_BYTES = 256 * 1024;
+export const MAX_IMPORT_ENTRIES = 1000;
+
+// One follow as read from an import, before validation. Settings are
+// already validated
+export interface ImportEntry {
+  term: string;
+  category: string;
+  settings?: SubscriptionSettings; // JSON only; OPML has no settings
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFormatError";
+  }
+}
+
+// Section titles used in OPML, by built-in category
+const SECTION_TITLES: Record<SubscriptionCategory, string> = {
+  league: "Leagues",
+  team: "Teams",
+  player: "Players",
+  tournament: "Tournaments",
+};
+
+export function exportJson(subscriptions: Subscriptions): string {
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT_NAME,
+      version: EXPORT_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      subscriptions,
+    },
+    null,
+    2
+  );
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Character references outside Unicode are left as written
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(x[0-9a-f]+|\d+);/gi, (match, reference: string) => {
+      const code =
+        reference[0].toLowerCase() === "x"
+          ? parseInt(reference.slice(1), 16)
+          : Number(reference);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    })
+    .replace(/&amp;/g, "&");
+}
+
+export function exportOpml(subscriptions: Subscriptions): string {
+  const byCategory = new Map<string, string[]>();
+  subscriptionEntries(subscriptions).forEach(({ term, category }) => {
+    byCategory.set(category, [...(byCategory.get(category) || []), term]);
+  });
+
+  const sections = Array.from(byCategory.entries()).map(([category, terms]) => {
+    const title = SECTION_TITLES[category as SubscriptionCategory] || category;
+    const items = terms
+      .map(
+        (term) =>
+          `      <outline text="${escapeXml(term)}" category="${escapeXml(
+            category
+          )}"/>`
+      )
+      .join("\n");
+    return `    <outline text="${escapeXml(title)}" category="${escapeXml(
+      category
+    )}">\n${items}\n    </outline>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    "  <head>",
+    "    <title>Football News subscriptions</title>",
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    "  </head>",
+    "  <body>",
+    ...sections,
+    "  </body>",
+    "</opml>",
+    "",
+  ].join("\n");
+}
+
+// Accepts our export format or a bare subscriptions object (the shape of
+// subscriptions.json)
+function parseJson(body: string): ImportEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new ImportFormatError("The file is not valid JSON");
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new ImportFormatError("Expected a JSON object");
+  }
+
+  const wrapper = data as Record<string, unknown>;
+  if (
+    wrapper.format === EXPORT_FORMAT_NAME &&
+    Number(wrapper.version) > EXPORT_FORMAT_VERSION
+  ) {
+    throw new ImportFormatError(
+      `Export version ${wrapper.version} is newer than this app supports`
+    );
+  }
+  const raw = (
+    wrapper.format === EXPORT_FORMAT_NAME ? wrapper.subscriptions : data
+  ) as Record<string, unknown> | undefined;
+  if (!raw || typeof raw !== "object") {
+    throw new ImportFormatError("No subscriptions found in the file");
+  }
+
+  // Settings are keyed like stored ones (see settingsKey). Settings that
+  // don't parse are dropped and the follow imported with the defaults, as
+  // when reading a stored document
+  const settings =
+    raw.settings && typeof raw.settings === "object"
+      ? (raw.settings as Record<string, unknown>)
+      : {};
+  const settingsFor = (term: unknown, category: string) => {
+    if (typeof term !== "string") return undefined;
+    const key = settingsKey(term, category);
+    if (!Object.prototype.hasOwnProperty.call(settings, key)) return undefined;
+    const parsed = parseSettings(settings[key]);
+    return typeof parsed === "string" ? undefined : parsed;
+  };
+
+  // Anything that isn't a string is passed through as-is so it gets
+  // reported as rejected rather than silently dropped
+  const entries: ImportEntry[] = [];
+  const collect = (list: unknown, category: string) => {
+    if (!Array.isArray(list)) return;
+    list.forEach((term) => {
+      const entrySettings = settingsFor(term, category);
+      entries.push({
+        term: term as string,
+        category,
+        ...(entrySettings ? { settings: entrySettings } : {}),
+      });
+    });
+  };
+  (Object.keys(CATEGORY_KEYS) as SubscriptionCategory[]).forEach((category) =>
+    collect(raw[CATEGORY_KEYS[category]], category)
+  );
+  if (raw.custom && typeof raw.custom === "object") {
+    Object.entries(raw.custom as Record<string, unknown>).forEach(
+      ([category, list]) => collect(list, category)
+    );
+  }
+  return entries;
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(
+    new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`)
+  );
+  if (!match) return undefined;
+  return unescapeXml(match[2] ?? match[3]);
+}
+
+// Leaf outlines are follows. Their category is their own category attribute,
+// or else the parent outline's (category attribute, then its title mapped
+// back from "Teams" etc.)
+function parseOpml(body: string): ImportEntry[] {
+  if (!/<opml[\s>]/i.test(body)) {
+    throw new ImportFormatError("The file is not OPML");
+  }
+
+  const titleToCategory = new Map<string, string>(
+    Object.entries(SECTION_TITLES).map(([category, title]) => [
+      title.toLowerCase(),
+      category,
+    ])
+  );
+  const entries: ImportEntry[] = [];
+  const parents: (string | undefined)[] = [];
+  const tags = body.match(/<\/?outline\b[^>]*>/gi) || [];
+
+  tags.forEach((tag) => {
+    if (tag.startsWith("</")) {
+      parents.pop();
+      return;
+    }
+    const text = readAttribute(tag, "text") ?? readAttribute(tag, "title");
+    const category = readAttribute(tag, "category");
+    if (tag.endsWith("/>")) {
+      const parent = parents[parents.length - 1];
+      if (text !== undefined) {
+        entries.push({ term: text, category: category || parent || "" });
+      }
+      return;
+    }
+    // An opening section outline
+    parents.push(
+      category ||
+        (text ? titleToCategory.get(text.toLowerCase()) || text : undefined)
+    );
+  });
+  return entries;
+}
+
+function tooLarge(): ImportFormatError {
+  return new ImportFormatError(
+    `The file is larger than ${MAX_IMPORT_BYTES / 1024} KB`
+  );
+}
+
+// A request's body as text, refused on its Content-Length or as soon as the
+// bytes read pass MAX_IMPORT_BYTES, so an oversized upload is never buffered
+export async function readImportBody(request: Request): Promise<string> {
+  const declared = Number(request.headers.get("content-length"));
+  if (declared > MAX_IMPORT_BYTES) {
+    await request.body?.cancel();
+    throw tooLarge();
+  }
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > MAX_IMPORT_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// The format is taken from the request when given, otherwise sniffed
+export function parseImport(
+  body: string,
+  format?: TransferFormat
+): ImportEntry[] {
+  if (Buffer.byteLength(body, "utf8") > MAX_IMPORT_BYTES) throw tooLarge();
+  const detected =
+    format || (body.trimStart().startsWith("<") ? "opml" : "json");
+  const entries = detected === "opml" ? parseOpml(body) : parseJson(body);
+  if (entries.length > MAX_IMPORT_ENTRIES) {
+    throw new ImportFormatError(
+      `The file has more than ${MAX_IMPORT_ENTRIES} entries`
+    );
+  }
+  return entries;
+}
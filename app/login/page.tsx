@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import axios, { AxiosError } from "axios";
+
+// Define the type for the auth API responses
+interface AuthResponse {
+  user: { id: string; username: string } | null;
+  error?: string;
+}
+
+export default function Login() {
+  const router = useRouter();
+  const [username, setUsername] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  // Sign in, or create the account first when registering
+  const submit = async (mode: "login" | "register") => {
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await axios.post<AuthResponse>(
+        `/api/auth/${mode}`,
+        { username, password },
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+      router.push("/");
+      router.refresh();
+    } catch (error: unknown) {
+      if (error instanceof AxiosError) {
+        setError(error.response?.data?.error || "Failed to sign in.");
+      } else {
+        setError("Failed to sign in.");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto p-5 bg-gray-50">
+      <h1 className="text-4xl text-gray-800 text-center mb-5 font-bold">
+        Sign In
+      </h1>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit("login");
+        }}
+        className="flex flex-col gap-4"
+      >
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          autoComplete="username"
+          className="p-3 border border-gray-300 rounded-lg text-lg outline-none shadow-sm"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete="current-password"
+          className="p-3 border border-gray-300 rounded-lg text-lg outline-none shadow-sm"
+        />
+        <div className="flex gap-4 justify-center">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="p-3 px-6 bg-blue-500 text-white rounded-lg text-lg cursor-pointer shadow-md hover:bg-blue-600 transition-colors"
+          >
+            Sign In
+          </button>
+          <button
+            type="button"
+            onClick={() => submit("register")}
+            disabled={isSubmitting}
+            className="p-3 px-6 bg-green-500 text-white rounded-lg text-lg cursor-pointer shadow-md hover:bg-green-600 transition-colors"
+          >
+            Create Account
+          </button>
+        </div>
+      </form>
+
+      {/* Error Display */}
+      {error && (
+        <div className="text-red-600 bg-red-50 p-3 rounded-lg mt-5 text-center">
+          Error: {error}
+        </div>
+      )}
+
+      {/* Back Button */}
+      <div className="text-center mt-5">
+        <Link href="/" className="text-blue-500 hover:text-blue-700 underline">
+          Back to Home
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -2,61 +2,90 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
-import { useParams, useSearchParams } from "next/navigation";
+import { useParams } from "next/navigation";
 import axios from "axios";
+import type { StoredArticle } from "@/app/lib/news/store";
 
-// Define the type for the detailed summary response
-interface SummaryResponse {
-  summary: string;
+// Define the type for the stored article response
+interface ArticleResponse {
+  article: StoredArticle | null;
   error?: string;
 }
 
 export default function NewsDetail() {
   const { id } = useParams(); // Get the news ID from the URL
-  const searchParams = useSearchParams(); // Get query parameters
-  const title = searchParams.get("title"); // Get the title from query parameters
+  const [article, setArticle] = useState<StoredArticle | null>(null);
   const [summary, setSummary] = useState<string>("");
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  const [streaming, setStreaming] = useState<boolean>(false); // Tokens still arriving
 
   useEffect(() => {
+    // Aborted on unmount so leaving the page stops the summary mid-stream
+    const controller = new AbortController();
+
     const fetchSummary = async () => {
       setLoading(true);
       setError(null);
+      setSummary("");
 
       try {
-        // Fetch a detailed summary from the xAI API, passing both ID and title
-        const response = await axios.post<SummaryResponse>(
-          "/api/news/summary",
-          { newsId: id, title },
-          {
-            headers: { "Content-Type": "application/json" },
-          }
+        // Load the stored article by its id, then stream a summary of it
+        const articleResponse = await axios.get<ArticleResponse>(
+          `/api/news/${id}`,
+          { signal: controller.signal }
         );
+        setArticle(articleResponse.data.article);
+
+        const response = await fetch("/api/news/summary/stream", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ newsId: id }),
+          signal: controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || "Failed to fetch the summary");
+        }
 
-        if (response.data.summary) {
-          setSummary(response.data.summary);
-        } else if (response.data.error) {
-          setError(response.data.error);
+        // Render tokens as they arrive
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        setStreaming(true);
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          setSummary((prev) => prev + decoder.decode(value, { stream: true }));
+          setLoading(false);
         }
       } catch (error: unknown) {
+        if (controller.signal.aborted) return; // Navigated away; nothing to show
         console.error("Error fetching summary:", {
           message: error instanceof Error ? error.message : String(error),
           stack: error instanceof Error ? error.stack : undefined,
         });
-        setError("Failed to fetch the summary.");
+        setError(
+          axios.isAxiosError(error) && error.response?.status === 404
+            ? "News item not found."
+            : "Failed to fetch the summary."
+        );
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+          setStreaming(false);
+        }
       }
     };
 
-    if (id && title) {
+    if (id) {
       fetchSummary();
     } else {
-      setError("Missing news ID or title.");
+      setError("Missing news ID.");
       setLoading(false);
     }
-  }, [id, title]);
+
+    return () => controller.abort();
+  }, [id]);
 
   return (
     <div className="max-w-3xl mx-auto p-5 bg-gray-50 min-h-screen">
@@ -66,8 +95,13 @@ export default function NewsDetail() {
 
       {/* Display the News Title */}
       <h2 className="text-2xl text-gray-800 mb-3 font-semibold text-center">
-        {title || "News Item"}
+        {article?.title || "News Item"}
       </h2>
+      {article && (
+        <p className="text-sm text-gray-500 italic text-center mb-3">
+          {article.date} · {article.source}
+        </p>
+      )}
 
       {/* Back to Home Button */}
       <div className="text-center mb-5">
@@ -88,7 +122,10 @@ export default function NewsDetail() {
           <h3 className="text-xl text-gray-800 mb-3 font-semibold">
             Brief Summary
           </h3>
-          <p className="text-gray-700 leading-relaxed">{summary}</p>
+          <p className="text-gray-700 leading-relaxed">
+            {summary}
+            {streaming && <span className="animate-pulse">▍</span>}
+          </p>
         </div>
       )}
     </div>
@@ -4,13 +4,29 @@ import { useState, useEffect, useTransition } from "react";
 import axios, { AxiosError } from "axios";
 import Link from "next/link";
 import { subscribeAction, unsubscribeAction } from "./actions"; // Import both subscribeAction and unsubscribeAction
+import type {
+  FeedMatch,
+  FeedResponse,
+  NewsItem,
+  PageInfo,
+} from "@/app/lib/news/types";
+import { mergeStories } from "@/app/lib/news/clusters";
+import { useInfiniteScroll } from "@/app/lib/infiniteScroll";
+import type { Suggestion } from "@/app/lib/entities/suggest";
+import { isSameEntity, isValidEntityName } from "@/app/lib/entities/registry";
+import {
+  normalizeCategory,
+  resolveSubscription,
+} from "@/app/lib/subscriptions/categories";
 
 // Define the type for the API response
 // Define the type for the API response
 // Define the type for the API response
 // Define the type for the API response
 interface NewsResponse {
-  news: { id: string; title: string; date: string; url: string }[];
+  news: NewsListItem[];
+  stale?: boolean;
+  page?: PageInfo;
   error?: string;
 }
 interface SubscriptionsResponse {
@@ -18,6 +34,29 @@ interface SubscriptionsResponse {
   teams: string[];
   players: string[];
   tournaments: string[]; // Ensure tournaments are included
+  custom?: Record<string, string[]>; // User-defined categories by name
+}
+interface SuggestResponse {
+  suggestions: Suggestion[];
+}
+interface MeResponse {
+  user: { id: string; username: string } | null;
+}
+
+// News items as rendered here
+type NewsListItem = NewsItem & {
+  stale?: boolean; // Served from the last good result while live news was unavailable
+  matches?: FeedMatch[]; // Subscriptions a feed item is about
+};
+
+// Add a subscription to a list unless another spelling of it is already there
+function withTerm(list: string[], term: string): string[] {
+  return list.some((item) => isSameEntity(item, term)) ? list : [...list, term];
+}
+
+// Copy the response-level stale marker onto each item so it survives merging lists
+function withStaleFlag(data: NewsResponse): NewsListItem[] {
+  return data.news.map((item) => ({ ...item, stale: data.stale }));
 }
 
 export default function Home() {
@@ -27,12 +66,9 @@ export default function Home() {
   const [leagues, setLeagues] = useState<string[]>([]); // Leagues user is following
   const [teams, setTeams] = useState<string[]>([]); // Teams user is following/subscribed
   const [players, setPlayers] = useState<string[]>([]); // Players user is subscribed to
-  const [news, setNews] = useState<
-    { id: string; title: string; date: string; url: string }[]
-  >([]); // News from search/subscribe
-  const [timelineNews, setTimelineNews] = useState<
-    { id: string; title: string; date: string; url: string }[]
-  >([]); // Latest football news from timeline
+  const [custom, setCustom] = useState<Record<string, string[]>>({}); // Custom categories user is following
+  const [news, setNews] = useState<NewsListItem[]>([]); // News from search/subscribe
+  const [timelineNews, setTimelineNews] = useState<NewsListItem[]>([]); // Latest football news from timeline
   const [error, setError] = useState<string | null>(null); // State for error messages
   const [category, setCategory] = useState<string>("Team"); // Default category for subscription
   const [customCategory, setCustomCategory] = useState<string>(""); // State for custom category
@@ -43,16 +79,33 @@ export default function Home() {
   const [isTeamsOpen, setIsTeamsOpen] = useState<boolean>(false);
   const [isPlayersOpen, setIsPlayersOpen] = useState<boolean>(false);
   const [isTournamentsOpen, setIsTournamentsOpen] = useState<boolean>(false);
+  const [openCustom, setOpenCustom] = useState<Record<string, boolean>>({}); // Which custom category dropdowns are expanded
+  const [hideUnverified, setHideUnverified] = useState<boolean>(false); // Hide items whose links failed verification
+  const [feedCursor, setFeedCursor] = useState<string | null>(null); // Loads the next page of the feed; null at its end
+  const [timelineCursor, setTimelineCursor] = useState<string | null>(null); // Same for the timeline
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false); // A further page is on its way
+  const [expandedStories, setExpandedStories] = useState<
+    Record<string, boolean>
+  >({}); // Stories whose related reports are shown, by id
+  const [username, setUsername] = useState<string | null>(null); // Signed-in user; subscriptions need an account
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]); // Typeahead suggestions for the search box
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState<boolean>(false);
+  const [activeSuggestion, setActiveSuggestion] = useState<number>(-1); // Highlighted suggestion, -1 for none
 
-  // Fetch subscriptions on load
+  // Fetch the signed-in user and their subscriptions on load
   useEffect(() => {
     const loadSubscriptions = async () => {
       try {
+        const me: MeResponse = await (await fetch("/api/auth/me")).json();
+        if (!me.user) return; // Signed out: nothing to load
+        setUsername(me.user.username);
         const subs = await getSubscriptionsFromServer();
         setLeagues(subs.leagues || []);
         setTeams(subs.teams || []);
         setPlayers(subs.players || []);
         setTournaments(subs.tournaments || []); // Add tournaments to state
+        setCustom(subs.custom || {});
+        await loadFeed();
       } catch (error: unknown) {
         console.error("Error loading subscriptions:", {
           message: error instanceof Error ? error.message : String(error),
@@ -69,6 +122,113 @@ export default function Home() {
     };
   }, []);
 
+  // Fetch typeahead suggestions shortly after the user stops typing
+  useEffect(() => {
+    if (searchTerm.trim().length < 2) {
+      setSuggestions([]);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await axios.get<SuggestResponse>(
+          "/api/entities/suggest",
+          { params: { q: searchTerm, limit: 8 }, signal: controller.signal }
+        );
+        setSuggestions(response.data.suggestions);
+        setActiveSuggestion(-1);
+      } catch (error: unknown) {
+        if (axios.isCancel(error)) return;
+        console.error("Error fetching suggestions:", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+        setSuggestions([]);
+      }
+    }, 150);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchTerm]);
+
+  // Replace the news list with the signed-in user's feed: news across every
+  // subscription, ranked and without duplicates
+  const loadFeed = async () => {
+    try {
+      const response = await axios.get<FeedResponse>("/api/feed");
+      setNews(response.data.news);
+      setFeedCursor(response.data.page?.before || null);
+    } catch (error: unknown) {
+      const data =
+        error instanceof AxiosError
+          ? (error.response?.data as FeedResponse | undefined)
+          : undefined;
+      console.error("Error fetching feed:", {
+        message: error instanceof Error ? error.message : String(error),
+        status: error instanceof AxiosError ? error.response?.status : null,
+      });
+      setError(data?.error || "Failed to load your feed.");
+    }
+  };
+
+  // Show or hide the other reports of a story
+  const toggleStory = (id: string) => {
+    setExpandedStories((prev) => ({ ...prev, [id]: !prev[id] }));
+  };
+
+  // Add the next page of the feed or the timeline as the end of it scrolls
+  // into view
+  const loadMoreFeed = async () => {
+    if (!feedCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const response = await axios.get<FeedResponse>("/api/feed", {
+        params: { before: feedCursor },
+      });
+      setNews((prevNews) => mergeStories(prevNews, response.data.news));
+      setFeedCursor(response.data.page?.before || null);
+    } catch (error: unknown) {
+      console.error("Error fetching more of the feed:", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      setFeedCursor(null); // Stop trying until the feed is reloaded
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const loadMoreTimeline = async () => {
+    if (!timelineCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const response = await axios.post<NewsResponse>("/api/news", {
+        kind: "latest",
+        before: timelineCursor,
+      });
+      setTimelineNews((prevNews) =>
+        mergeStories(prevNews, withStaleFlag(response.data))
+      );
+      setTimelineCursor(response.data.page?.before || null);
+    } catch (error: unknown) {
+      console.error("Error fetching more timeline news:", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      setTimelineCursor(null);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const feedEndRef = useInfiniteScroll<HTMLDivElement>(
+    loadMoreFeed,
+    !!feedCursor && !isLoadingMore
+  );
+  const timelineEndRef = useInfiniteScroll<HTMLDivElement>(
+    loadMoreTimeline,
+    !!timelineCursor && !isLoadingMore
+  );
+
   // Helper function to fetch subscriptions (simplified, assumes server actions or API)
   async function getSubscriptionsFromServer(): Promise<SubscriptionsResponse> {
     const response = await fetch("/api/subscriptions", { method: "GET" });
@@ -87,68 +247,76 @@ export default function Home() {
 
   // Handle subscribing (optional, adds to appropriate category with validation and custom option)
   const handleSubscribe = async () => {
+    if (!username) {
+      setError("Sign in to subscribe.");
+      return;
+    }
+
     if (!searchTerm || searchTerm.trim() === "") {
       setError("Please enter a valid team, league, or player name.");
       return;
     }
 
-    // Simple validation for valid names
-    const isValidName = /^[a-zA-Z0-9\s-]+$/.test(searchTerm.trim());
-    if (!isValidName) {
+    // Letters in any script, so "Fenerbahçe" and "Atlético Madrid" pass
+    if (!isValidEntityName(searchTerm)) {
       setError(
-        "Please enter a valid name (letters, numbers, spaces, or hyphens only)."
+        "Please enter a valid name (letters, numbers, spaces, and . ' & - only)."
       );
       return;
     }
 
-    // Confirmation dialog
-    if (
-      !confirm(
-        `Subscribe to ${searchTerm} as a ${
-          isCustom ? customCategory : category.toLowerCase()
-        }?`
-      )
-    ) {
+    // Custom names are cleaned up the same way the server does it
+    const finalCategory = normalizeCategory(
+      isCustom ? customCategory : category
+    );
+    if (!finalCategory) {
+      setError("Please enter a category name (up to 40 characters).");
       return;
     }
 
-    const term = searchTerm.trim();
-    const finalCategory = isCustom
-      ? customCategory.toLowerCase()
-      : category.toLowerCase();
+    // Known names resolve to the canonical entity, as they will on the server
+    const { term, category: resolvedCategory } = resolveSubscription(
+      searchTerm,
+      finalCategory
+    );
+
+    // Confirmation dialog
+    if (!confirm(`Subscribe to ${term} as a ${resolvedCategory}?`)) {
+      return;
+    }
 
     try {
       startTransition(() => {
-        subscribeAction(term, finalCategory).catch((error: unknown) => {
-          setError(
-            error instanceof Error ? error.message : "Failed to subscribe."
-          );
-        });
+        subscribeAction(term, resolvedCategory)
+          .then(loadFeed) // The new subscription's news joins the feed
+          .catch((error: unknown) => {
+            setError(
+              error instanceof Error ? error.message : "Failed to subscribe."
+            );
+          });
       });
       // Optimistically update UI
-      switch (finalCategory) {
+      switch (resolvedCategory) {
         case "league":
-          setLeagues([...leagues, term]);
+          setLeagues(withTerm(leagues, term));
           break;
         case "team":
-          setTeams([...teams, term]);
+          setTeams(withTerm(teams, term));
           break;
         case "player":
-          setPlayers([...players, term]);
+          setPlayers(withTerm(players, term));
           break;
         case "tournament":
-          setTournaments([...tournaments, term]); // Update tournaments state for "Tournament" category
+          setTournaments(withTerm(tournaments, term)); // Update tournaments state for "Tournament" category
           break;
         default:
-          // Fallback for custom categories (only if not "Tournament")
-          if (finalCategory !== "tournament") {
-            setPlayers([...players, term]); // Default to players for unrecognized custom categories
-          } else {
-            setTournaments([...tournaments, term]); // Ensure custom "Tournament" goes to tournaments
-          }
+          // Custom category; created on first subscription
+          setCustom({
+            ...custom,
+            [resolvedCategory]: withTerm(custom[resolvedCategory] || [], term),
+          });
           break;
       }
-      fetchNews(term);
     } catch (error: unknown) {
       setError("Failed to subscribe due to an error.");
       console.error("Subscription error:", {
@@ -161,14 +329,35 @@ export default function Home() {
     setIsCustom(false); // Reset custom category selection
   };
 
+  // Sign out and drop the previous user's subscriptions from the page
+  const handleSignOut = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } catch (error: unknown) {
+      console.error("Error signing out:", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    setUsername(null);
+    setLeagues([]);
+    setTeams([]);
+    setPlayers([]);
+    setTournaments([]);
+    setCustom({});
+    setNews([]);
+    setFeedCursor(null);
+  };
+
   // Handle unsubscribing
   const handleUnsubscribe = (term: string, category: string) => {
     startTransition(() => {
-      unsubscribeAction(term, category).catch((error: unknown) => {
-        setError(
-          error instanceof Error ? error.message : "Failed to unsubscribe"
-        );
-      });
+      unsubscribeAction(term, category)
+        .then(loadFeed)
+        .catch((error: unknown) => {
+          setError(
+            error instanceof Error ? error.message : "Failed to unsubscribe"
+          );
+        });
       // Optimistically update UI
       switch (category.toLowerCase()) {
         case "league":
@@ -183,6 +372,20 @@ export default function Home() {
         case "tournament":
           setTournaments(tournaments.filter((item: string) => item !== term));
           break;
+        default: {
+          // Custom category; it goes away with its last subscription
+          const remaining = (custom[category] || []).filter(
+            (item: string) => item !== term
+          );
+          const next = { ...custom };
+          if (remaining.length > 0) {
+            next[category] = remaining;
+          } else {
+            delete next[category];
+          }
+          setCustom(next);
+          break;
+        }
       }
     });
   };
@@ -193,24 +396,19 @@ export default function Home() {
     try {
       const response = await axios.post<NewsResponse>(
         "/api/news",
-        { q: query },
+        { kind: "entity-news", q: query },
         {
           headers: { "Content-Type": "application/json" },
         }
       );
       if (response.data.news) {
-        setNews((prevNews) => [...prevNews, ...response.data.news]);
+        // Other reports of a story already listed go under it, so searching
+        // a club and then its league doesn't show the same headline twice
+        setNews((prevNews) =>
+          mergeStories(prevNews, withStaleFlag(response.data))
+        );
       } else if (response.data.error) {
         setError(response.data.error);
-        setNews((prevNews) => [
-          ...prevNews,
-          {
-            id: `${Date.now()}`,
-            title: "Couldn’t fetch news.",
-            date: new Date().toISOString().split("T")[0],
-            url: "https://example.com/placeholder",
-          },
-        ]);
       }
     } catch (error: unknown) {
       if (error instanceof AxiosError) {
@@ -230,15 +428,6 @@ export default function Home() {
         });
         setError("Failed to fetch news.");
       }
-      setNews((prevNews) => [
-        ...prevNews,
-        {
-          id: `${Date.now()}`,
-          title: "Couldn’t fetch news.",
-          date: new Date().toISOString().split("T")[0],
-          url: "https://example.com/placeholder",
-        },
-      ]);
     }
   };
 
@@ -247,23 +436,16 @@ export default function Home() {
     try {
       const response = await axios.post<NewsResponse>(
         "/api/news",
-        { q: "latest football news" },
+        { kind: "latest" },
         {
           headers: { "Content-Type": "application/json" },
         }
       );
       if (response.data.news) {
-        setTimelineNews(response.data.news);
+        setTimelineNews(withStaleFlag(response.data));
+        setTimelineCursor(response.data.page?.before || null);
       } else if (response.data.error) {
         setError(response.data.error);
-        setTimelineNews([
-          {
-            id: `${Date.now()}`,
-            title: "Couldn’t fetch timeline news.",
-            date: new Date().toISOString().split("T")[0],
-            url: "https://example.com/placeholder",
-          },
-        ]);
       }
     } catch (error: unknown) {
       if (error instanceof AxiosError) {
@@ -283,32 +465,59 @@ export default function Home() {
         });
         setError("Failed to fetch timeline news.");
       }
-      setTimelineNews([
-        {
-          id: `${Date.now()}`,
-          title: "Couldn’t fetch timeline news.",
-          date: new Date().toISOString().split("T")[0],
-          url: "https://example.com/placeholder",
-        },
-      ]);
     }
   };
 
   // Clear the news feed
   const clearNewsFeed = () => {
     setNews([]); // Clear search/subscribe news
+    setFeedCursor(null);
   };
 
   // Reset the timeline (fetch new latest news)
   const resetTimeline = () => {
     setTimelineNews([]); // Clear current timeline news
+    setTimelineCursor(null);
     fetchTimelineNews(); // Fetch new timeline news
   };
 
-  // Handle search on Enter key
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter") {
-      handleSearch(); // Default to search on Enter
+  // Picking a suggestion fills in the name and, for known entities, the category
+  const selectSuggestion = (suggestion: Suggestion) => {
+    setSearchTerm(suggestion.name);
+    if (suggestion.category) {
+      setIsCustom(false);
+      setCategory(
+        suggestion.category.charAt(0).toUpperCase() +
+          suggestion.category.slice(1)
+      );
+    }
+    setIsSuggestionsOpen(false);
+    setActiveSuggestion(-1);
+  };
+
+  // Arrow keys move through the suggestions, Enter picks the highlighted one
+  // (or searches), Escape closes the list
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const isOpen = isSuggestionsOpen && suggestions.length > 0;
+    if (e.key === "ArrowDown" && isOpen) {
+      e.preventDefault();
+      setActiveSuggestion((activeSuggestion + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp" && isOpen) {
+      e.preventDefault();
+      setActiveSuggestion(
+        activeSuggestion <= 0 ? suggestions.length - 1 : activeSuggestion - 1
+      );
+    } else if (e.key === "Escape") {
+      setIsSuggestionsOpen(false);
+      setActiveSuggestion(-1);
+    } else if (e.key === "Enter") {
+      if (isOpen && activeSuggestion >= 0) {
+        e.preventDefault();
+        selectSuggestion(suggestions[activeSuggestion]);
+      } else {
+        setIsSuggestionsOpen(false);
+        handleSearch(); // Default to search on Enter
+      }
     }
   };
 
@@ -323,6 +532,30 @@ export default function Home() {
     <div className="flex h-screen">
       {/* Sidebar for Subscriptions and Timeline (Left Side) */}
       <aside className="w-72 bg-gradient-to-b from-gray-100 to-gray-200 p-6 shadow-lg rounded-r-lg border-r border-gray-300">
+        {/* Account */}
+        <div className="mb-4 text-gray-700 flex justify-between items-center">
+          {username ? (
+            <>
+              <span>
+                Signed in as <span className="font-semibold">{username}</span>
+              </span>
+              <button
+                onClick={handleSignOut}
+                className="text-blue-500 hover:text-blue-700 underline"
+              >
+                Sign out
+              </button>
+            </>
+          ) : (
+            <Link
+              href="/login"
+              className="text-blue-500 hover:text-blue-700 underline"
+            >
+              Sign in to follow teams
+            </Link>
+          )}
+        </div>
+
         {/* Timeline button at the top */}
         <Link
           href="/timeline"
@@ -525,6 +758,55 @@ export default function Home() {
                   </div>
                 )}
               </div>
+
+              {/* Custom Category Dropdowns */}
+              {Object.keys(custom)
+                .sort()
+                .map((name: string) => (
+                  <div key={name}>
+                    <button
+                      onClick={() =>
+                        setOpenCustom({
+                          ...openCustom,
+                          [name]: !openCustom[name],
+                        })
+                      }
+                      className="w-full p-2 bg-gray-200 text-gray-800 rounded-lg text-md font-semibold text-left flex justify-between items-center hover:bg-gray-300 transition-colors capitalize"
+                    >
+                      {name}
+                      <span>{openCustom[name] ? "▲" : "▼"}</span>
+                    </button>
+                    {openCustom[name] && (
+                      <div className="mt-1 pl-4 max-h-40 overflow-y-auto">
+                        <ul className="list-none p-0 m-0">
+                          {custom[name].map((term: string) => (
+                            <li
+                              key={term}
+                              className="bg-white p-2 mb-1 rounded-lg border border-gray-200 shadow-sm hover:bg-gray-50 transition-colors flex justify-between items-center cursor-pointer"
+                              onClick={() => fetchNews(term)}
+                            >
+                              <span className="text-gray-800">{term}</span>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleUnsubscribe(term, name);
+                                }}
+                                disabled={isPending}
+                                className={`text-red-500 hover:text-red-700 ml-2 ${
+                                  isPending
+                                    ? "opacity-50 cursor-not-allowed"
+                                    : ""
+                                }`}
+                              >
+                                ×
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                ))}
             </div>
           )}
         </div>
@@ -549,14 +831,60 @@ export default function Home() {
 
         {/* Search and Subscribe Inputs with Category Dropdown and Custom Input */}
         <div className="flex gap-4 mb-5 justify-center items-center">
-          <input
-            type="text"
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Search for a team, league, or player..."
-            className="p-3 w-80 border border-gray-300 rounded-lg text-lg outline-none shadow-sm"
-          />
+          <div className="relative">
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setIsSuggestionsOpen(true);
+              }}
+              onKeyDown={handleKeyDown}
+              onBlur={() => setIsSuggestionsOpen(false)}
+              placeholder="Search for a team, league, or player..."
+              role="combobox"
+              aria-autocomplete="list"
+              aria-expanded={isSuggestionsOpen && suggestions.length > 0}
+              aria-controls="search-suggestions"
+              aria-activedescendant={
+                activeSuggestion >= 0
+                  ? `search-suggestion-${activeSuggestion}`
+                  : undefined
+              }
+              className="p-3 w-80 border border-gray-300 rounded-lg text-lg outline-none shadow-sm"
+            />
+            {/* Typeahead Suggestions */}
+            {isSuggestionsOpen && suggestions.length > 0 && (
+              <ul
+                id="search-suggestions"
+                role="listbox"
+                className="absolute z-10 mt-1 w-80 bg-white border border-gray-300 rounded-lg shadow-lg list-none p-0 m-0 max-h-72 overflow-y-auto"
+              >
+                {suggestions.map((suggestion: Suggestion, index: number) => (
+                  <li
+                    key={suggestion.id || suggestion.name}
+                    id={`search-suggestion-${index}`}
+                    role="option"
+                    aria-selected={index === activeSuggestion}
+                    // mousedown fires before the input's blur closes the list
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      selectSuggestion(suggestion);
+                    }}
+                    onMouseEnter={() => setActiveSuggestion(index)}
+                    className={`p-2 px-3 flex justify-between items-center cursor-pointer ${
+                      index === activeSuggestion ? "bg-blue-100" : ""
+                    }`}
+                  >
+                    <span className="text-gray-800">{suggestion.name}</span>
+                    <span className="text-xs text-gray-500 capitalize">
+                      {suggestion.category || "in the news"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
           <select
             value={isCustom ? "Other" : category}
             onChange={(e) => {
@@ -613,6 +941,19 @@ export default function Home() {
           </button>
         </div>
 
+        {/* Hide items whose links could not be verified */}
+        <div className="text-center mb-5">
+          <label className="text-gray-700">
+            <input
+              type="checkbox"
+              checked={hideUnverified}
+              onChange={(e) => setHideUnverified(e.target.checked)}
+              className="mr-2"
+            />
+            Hide unverified news
+          </label>
+        </div>
+
         {/* Error Display */}
         {error && (
           <div className="text-red-600 bg-red-50 p-3 rounded-lg mb-5 text-center">
@@ -621,6 +962,14 @@ export default function Home() {
           </div>
         )}
 
+        {/* Stale Notice: some items are the last saved results */}
+        {[...news, ...timelineNews].some((item) => item.stale) && (
+          <div className="text-gray-700 bg-gray-100 p-3 rounded-lg mb-5 text-center">
+            Live news is unavailable right now. Items marked “Saved copy” are
+            the last saved results.
+          </div>
+        )}
+
         {/* News Feed (Search/Subscribe News) */}
         <div>
           <h2 className="text-2xl text-gray-800 mb-3 font-bold">Latest News</h2>
@@ -630,50 +979,106 @@ export default function Home() {
             </p>
           ) : (
             <ul className="list-none p-0 m-0">
-              {news.map(
-                (
-                  item: {
-                    id: string;
-                    title: string;
-                    date: string;
-                    url: string;
-                  },
-                  index: number
-                ) => (
+              {news
+                .filter((item) => !hideUnverified || item.verified !== false)
+                .map((item: NewsListItem, index: number) => (
                   <li
                     key={index}
                     className="bg-white p-4 mb-4 rounded-lg border border-gray-200 shadow-md hover:shadow-lg transition-shadow duration-200 flex flex-col gap-2"
                   >
                     <div className="text-gray-800 font-semibold">
                       {item.title}
+                      {item.stale && (
+                        <span
+                          title="Live news is unavailable; this is the last saved result"
+                          className="ml-2 px-2 py-0.5 rounded bg-gray-200 text-gray-700 text-xs font-normal"
+                        >
+                          Saved copy
+                        </span>
+                      )}
+                      {item.verified === false && (
+                        <span
+                          title={`Link not verified (${item.urlStatus})`}
+                          className="ml-2 px-2 py-0.5 rounded bg-yellow-100 text-yellow-800 text-xs font-normal"
+                        >
+                          Unverified
+                        </span>
+                      )}
                     </div>
                     <div className="text-sm text-gray-500 italic">
                       {item.date}
+                      {item.matches && item.matches.length > 0 && (
+                        <span className="not-italic">
+                          {" "}
+                          · For{" "}
+                          {item.matches
+                            .map((match) => match.term)
+                            .filter(
+                              (term, i, terms) => terms.indexOf(term) === i
+                            )
+                            .join(", ")}
+                        </span>
+                      )}
                     </div>
                     <div className="flex justify-between items-center">
-                      <a
-                        href={item.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-blue-500 hover:underline text-sm"
-                      >
-                        Explore More
-                      </a>
+                      {item.urlStatus !== "placeholder" &&
+                        item.urlStatus !== "malformed" && (
+                          <a
+                            href={item.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-500 hover:underline text-sm"
+                          >
+                            Explore More
+                          </a>
+                        )}
                       <Link
-                        href={{
-                          pathname: `/news/${item.id}`,
-                          query: { title: item.title },
-                        }}
+                        href={`/news/${item.id}`}
                         className="text-green-500 hover:underline text-sm"
                       >
                         Brief Summary
                       </Link>
                     </div>
+                    {item.related && item.related.length > 0 && (
+                      <div>
+                        <button
+                          onClick={() => toggleStory(item.id)}
+                          className="text-sm text-gray-600 hover:underline"
+                        >
+                          {expandedStories[item.id] ? "▾" : "▸"}{" "}
+                          {item.related.length} related{" "}
+                          {item.related.length === 1 ? "report" : "reports"}
+                        </button>
+                        {expandedStories[item.id] && (
+                          <ul className="list-none mt-2 pl-3 border-l-2 border-gray-200 flex flex-col gap-1">
+                            {item.related.map((report) => (
+                              <li
+                                key={report.id}
+                                className="text-sm text-gray-700"
+                              >
+                                <Link
+                                  href={`/news/${report.id}`}
+                                  className="hover:underline"
+                                >
+                                  {report.title}
+                                </Link>{" "}
+                                <span className="text-gray-500">
+                                  · {report.source} · {report.date}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
                   </li>
-                )
-              )}
+                ))}
             </ul>
           )}
+          <div ref={feedEndRef} />
+          {feedCursor && isLoadingMore && (
+            <p className="text-gray-500 italic text-center">Loading more…</p>
+          )}
         </div>
 
         {/* Timeline News Feed (on home page, if any) */}
@@ -683,49 +1088,93 @@ export default function Home() {
               Timeline News
             </h2>
             <ul className="list-none p-0 m-0">
-              {timelineNews.map(
-                (
-                  item: {
-                    id: string;
-                    title: string;
-                    date: string;
-                    url: string;
-                  },
-                  index: number
-                ) => (
+              {timelineNews
+                .filter((item) => !hideUnverified || item.verified !== false)
+                .map((item: NewsListItem, index: number) => (
                   <li
                     key={index}
                     className="bg-white p-4 mb-4 rounded-lg border border-gray-200 shadow-md hover:shadow-lg transition-shadow duration-200 flex flex-col gap-2"
                   >
                     <div className="text-gray-800 font-semibold">
                       {item.title}
+                      {item.stale && (
+                        <span
+                          title="Live news is unavailable; this is the last saved result"
+                          className="ml-2 px-2 py-0.5 rounded bg-gray-200 text-gray-700 text-xs font-normal"
+                        >
+                          Saved copy
+                        </span>
+                      )}
+                      {item.verified === false && (
+                        <span
+                          title={`Link not verified (${item.urlStatus})`}
+                          className="ml-2 px-2 py-0.5 rounded bg-yellow-100 text-yellow-800 text-xs font-normal"
+                        >
+                          Unverified
+                        </span>
+                      )}
                     </div>
                     <div className="text-sm text-gray-500 italic">
                       {item.date}
                     </div>
                     <div className="flex justify-between items-center">
-                      <a
-                        href={item.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-blue-500 hover:underline text-sm"
-                      >
-                        Explore More
-                      </a>
+                      {item.urlStatus !== "placeholder" &&
+                        item.urlStatus !== "malformed" && (
+                          <a
+                            href={item.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-500 hover:underline text-sm"
+                          >
+                            Explore More
+                          </a>
+                        )}
                       <Link
-                        href={{
-                          pathname: `/news/${item.id}`,
-                          query: { title: item.title },
-                        }}
+                        href={`/news/${item.id}`}
                         className="text-green-500 hover:underline text-sm"
                       >
                         Brief Summary
                       </Link>
                     </div>
+                    {item.related && item.related.length > 0 && (
+                      <div>
+                        <button
+                          onClick={() => toggleStory(item.id)}
+                          className="text-sm text-gray-600 hover:underline"
+                        >
+                          {expandedStories[item.id] ? "▾" : "▸"}{" "}
+                          {item.related.length} related{" "}
+                          {item.related.length === 1 ? "report" : "reports"}
+                        </button>
+                        {expandedStories[item.id] && (
+                          <ul className="list-none mt-2 pl-3 border-l-2 border-gray-200 flex flex-col gap-1">
+                            {item.related.map((report) => (
+                              <li
+                                key={report.id}
+                                className="text-sm text-gray-700"
+                              >
+                                <Link
+                                  href={`/news/${report.id}`}
+                                  className="hover:underline"
+                                >
+                                  {report.title}
+                                </Link>{" "}
+                                <span className="text-gray-500">
+                                  · {report.source} · {report.date}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
                   </li>
-                )
-              )}
+                ))}
             </ul>
+            <div ref={timelineEndRef} />
+            {timelineCursor && isLoadingMore && (
+              <p className="text-gray-500 italic text-center">Loading more…</p>
+            )}
           </div>
         )}
       </main>
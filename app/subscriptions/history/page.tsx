@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { HistoryEvent } from "@/app/lib/subscriptions/history";
+
+// Define the type for the history API response
+interface HistoryResponse {
+  events: HistoryEvent[];
+  error?: string;
+}
+
+// Describe one change in plain words
+function describe(event: HistoryEvent): string {
+  switch (event.type) {
+    case "subscribe":
+      return `Subscribed to ${event.term} (${event.category})`;
+    case "unsubscribe":
+      return `Unsubscribed from ${event.term} (${event.category})`;
+    case "rename":
+      return `Renamed ${event.previousTerm} to ${event.term} (${event.category})`;
+  }
+}
+
+export default function SubscriptionHistory() {
+  const [events, setEvents] = useState<HistoryEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  const loadHistory = async () => {
+    try {
+      const response = await fetch("/api/subscriptions/history");
+      const result: HistoryResponse = await response.json();
+      if (response.status === 401) {
+        setError("Sign in to see your subscription history.");
+        return;
+      }
+      if (!response.ok) throw new Error(result.error);
+      setEvents(result.events);
+    } catch (error: unknown) {
+      console.error("Error fetching subscription history:", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      setError("Failed to load subscription history.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Fetch history from server on load
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  // Reverse the most recent change that hasn't been undone yet
+  const handleUndo = async () => {
+    setError(null);
+    try {
+      const response = await fetch("/api/subscriptions/undo", {
+        method: "POST",
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || "Failed to undo.");
+        return;
+      }
+      await loadHistory();
+    } catch (error: unknown) {
+      console.error("Error undoing:", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      setError("Failed to undo.");
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-5 bg-gray-50">
+      <h1 className="text-4xl text-gray-800 text-center mb-5 font-bold">
+        Subscription History
+      </h1>
+
+      <div className="text-center mb-5">
+        <Link
+          href="/subscriptions"
+          className="text-blue-500 hover:text-blue-700 underline"
+        >
+          Back to Subscriptions
+        </Link>
+        {" · "}
+        <button
+          onClick={handleUndo}
+          className="text-blue-500 hover:text-blue-700 underline"
+        >
+          Undo last change
+        </button>
+      </div>
+
+      {error && <p className="text-red-500 text-center mb-5">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-gray-600 text-center">Loading...</p>
+      ) : events.length === 0 ? (
+        !error && (
+          <p className="text-gray-600 text-center">No changes recorded yet.</p>
+        )
+      ) : (
+        <ul className="list-none p-0">
+          {events.map((event) => (
+            <li
+              key={event.id}
+              className="bg-white p-3 mb-3 rounded-lg border border-gray-300 shadow-sm flex justify-between items-center"
+            >
+              <span className="text-gray-800">{describe(event)}</span>
+              <span className="text-sm text-gray-500 ml-2 whitespace-nowrap">
+                {event.source !== "user" && (
+                  <span className="bg-gray-200 text-gray-700 rounded px-2 py-0.5 mr-2">
+                    {event.source}
+                  </span>
+                )}
+                {new Date(event.at).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
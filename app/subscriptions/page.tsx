@@ -3,21 +3,74 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import axios, { AxiosError } from "axios"; // Import axios for runtime and AxiosError for types (from @types/axios)
+import {
+  DEFAULT_PRIORITY,
+  defaultSettings,
+  isMuted,
+  MAX_PRIORITY,
+  MIN_PRIORITY,
+  settingsKey,
+  SubscriptionSettings,
+} from "@/app/lib/subscriptions/settings";
+import type { PageInfo } from "@/app/lib/news/types";
+import { useInfiniteScroll } from "@/app/lib/infiniteScroll";
 
 // Use the native Web API Response type
 type Response = globalThis.Response;
 
 // Define the types for the API responses
+interface ImportResult {
+  term: string;
+  category: string;
+  reason?: string;
+}
+
+interface UndoResponse {
+  success: boolean;
+  undone?: { type: string; term: string; category: string }[];
+  subscriptions?: SubscriptionsResponse;
+  error?: string;
+}
+
+interface ImportResponse {
+  success: boolean;
+  added?: ImportResult[];
+  skipped?: ImportResult[];
+  rejected?: ImportResult[];
+  subscriptions?: SubscriptionsResponse;
+  error?: string;
+}
+
 interface NewsResponse {
   news: { title: string; date: string }[];
+  stale?: boolean; // Last good results served while live news was unavailable
+  priority?: number; // Priority of the follow the news is for
+  mutedUntil?: string; // Set when that follow is muted
+  page?: PageInfo;
+  error?: string;
+}
+
+interface SettingsResponse {
+  success: boolean;
+  settings?: SubscriptionSettings;
   error?: string;
 }
 
+// The settings form: keywords as comma-separated text, the mute as a date
+interface SettingsDraft {
+  priority: number;
+  mutedUntil: string; // YYYY-MM-DD, empty for no mute
+  include: string;
+  exclude: string;
+}
+
 interface SubscriptionsResponse {
   leagues: string[];
   teams: string[];
   players: string[];
   tournaments: string[]; // Add tournaments to ensure they’re included in the response
+  custom?: Record<string, string[]>; // User-defined categories by name
+  settings?: Record<string, SubscriptionSettings>; // By settingsKey(term, category)
   error?: string;
 }
 
@@ -26,8 +79,35 @@ export default function Subscriptions() {
   const [teams, setTeams] = useState<string[]>([]); // Teams user is following/subscribed
   const [players, setPlayers] = useState<string[]>([]); // Players user is subscribed to
   const [tournaments, setTournaments] = useState<string[]>([]); // Tournaments user is following
-  const [news, setNews] = useState<{ title: string; date: string }[]>([]);
+  const [custom, setCustom] = useState<Record<string, string[]>>({}); // Custom categories user is following
+  const [settings, setSettings] = useState<
+    Record<string, SubscriptionSettings>
+  >({}); // Priority, mute and keyword filters per follow
+  const [editing, setEditing] = useState<{
+    term: string;
+    category: string;
+  } | null>(null); // Follow whose settings are being edited
+  const [draft, setDraft] = useState<SettingsDraft | null>(null);
+  const [news, setNews] = useState<
+    { title: string; date: string; stale?: boolean; priority?: number }[]
+  >([]);
+  const [newsCursors, setNewsCursors] = useState<Record<string, string>>({}); // Loads older news, by the subscription it is for
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null); // Ensure error is string | null
+  const [importFile, setImportFile] = useState<File | null>(null); // JSON or OPML file to import
+  const [importMode, setImportMode] = useState<"merge" | "replace">("merge");
+  const [importReport, setImportReport] = useState<ImportResponse | null>(null); // Outcome of the last import
+  const [lastChange, setLastChange] = useState<string | null>(null); // Description of the last change, offered for undo
+
+  // Show a full set of subscriptions returned by the server
+  const showSubscriptions = (subs: SubscriptionsResponse) => {
+    setLeagues(subs.leagues || []);
+    setTeams(subs.teams || []);
+    setPlayers(subs.players || []);
+    setTournaments(subs.tournaments || []);
+    setCustom(subs.custom || {});
+    setSettings(subs.settings || {});
+  };
 
   // Fetch subscriptions from server on load
   useEffect(() => {
@@ -35,12 +115,18 @@ export default function Subscriptions() {
       let response: Response | null = null; // Declare response outside try/catch for scope, using native Response
       try {
         response = await fetch("/api/subscriptions");
+        if (response.status === 401) {
+          setError("Sign in to see your subscriptions.");
+          return;
+        }
         if (!response.ok) throw new Error("Failed to fetch subscriptions");
         const subs: SubscriptionsResponse = await response.json();
         setLeagues(subs.leagues || []);
         setTeams(subs.teams || []);
         setPlayers(subs.players || []);
         setTournaments(subs.tournaments || []); // Ensure tournaments are set
+        setCustom(subs.custom || {});
+        setSettings(subs.settings || {});
       } catch (error: unknown) {
         console.error("Error fetching subscriptions:", {
           message: error instanceof Error ? error.message : String(error),
@@ -58,28 +144,55 @@ export default function Subscriptions() {
     };
   }, []);
 
-  // Fetch news for a specific subscription
-  const fetchNewsForSubscription = async (query: string) => {
+  // Fetch news for a specific subscription; with before, its next page
+  const fetchNewsForSubscription = async (query: string, before?: string) => {
     setError(null);
     try {
       const response = await axios.post<NewsResponse>(
         "/api/news",
-        { q: query },
+        { kind: "entity-news", q: query, before },
         {
           headers: { "Content-Type": "application/json" },
         }
       );
-      if (response.data.news) {
-        setNews((prevNews) => [...prevNews, ...response.data.news]);
-      } else if (response.data.error) {
-        setError(response.data.error);
+      const cursor = response.data.page?.before;
+      setNewsCursors((prevCursors) => {
+        const next = { ...prevCursors };
+        if (cursor) {
+          next[query] = cursor;
+        } else {
+          delete next[query];
+        }
+        return next;
+      });
+      if (response.data.mutedUntil) {
         setNews((prevNews) => [
           ...prevNews,
           {
-            title: "Couldn’t fetch news.",
+            title: `${query} is muted until ${new Date(
+              response.data.mutedUntil as string
+            ).toLocaleDateString()}.`,
             date: new Date().toISOString().split("T")[0],
           },
         ]);
+      } else if (response.data.news) {
+        // Higher priority follows first; sort keeps the order within one
+        setNews((prevNews) =>
+          [
+            ...prevNews,
+            ...response.data.news.map((item) => ({
+              ...item,
+              stale: response.data.stale,
+              priority: response.data.priority,
+            })),
+          ].sort(
+            (a, b) =>
+              (b.priority ?? DEFAULT_PRIORITY) -
+              (a.priority ?? DEFAULT_PRIORITY)
+          )
+        );
+      } else if (response.data.error) {
+        setError(response.data.error);
       }
     } catch (error: unknown) {
       if (error instanceof AxiosError) {
@@ -99,19 +212,64 @@ export default function Subscriptions() {
         });
         setError("Failed to fetch news.");
       }
-      setNews((prevNews) => [
-        ...prevNews,
-        {
-          title: "Couldn’t fetch news.",
-          date: new Date().toISOString().split("T")[0],
-        },
-      ]);
+    }
+  };
+
+  // Add the next page for every subscription with more news, as the end of
+  // the list scrolls into view
+  const loadMoreNews = async () => {
+    setIsLoadingMore(true);
+    try {
+      for (const [query, cursor] of Object.entries(newsCursors)) {
+        await fetchNewsForSubscription(query, cursor);
+      }
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const newsEndRef = useInfiniteScroll<HTMLDivElement>(
+    loadMoreNews,
+    Object.keys(newsCursors).length > 0 && !isLoadingMore
+  );
+
+  // Upload the chosen file and show what was added, skipped or rejected
+  const handleImport = async () => {
+    if (!importFile) return;
+    if (
+      importMode === "replace" &&
+      !confirm("Replace all your subscriptions with the imported ones?")
+    ) {
+      return;
+    }
+
+    setError(null);
+    setImportReport(null);
+    try {
+      const response = await fetch(
+        `/api/subscriptions/import?mode=${importMode}`,
+        { method: "POST", body: await importFile.text() }
+      );
+      const result: ImportResponse = await response.json();
+      if (!response.ok || !result.subscriptions) {
+        setError(result.error || "Failed to import subscriptions.");
+        return;
+      }
+      setImportReport(result);
+      showSubscriptions(result.subscriptions);
+      setLastChange("Imported subscriptions.");
+    } catch (error: unknown) {
+      console.error("Error importing subscriptions:", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      setError("Failed to import subscriptions.");
     }
   };
 
   // Clear news for this page
   const clearNews = () => {
     setNews([]);
+    setNewsCursors({});
   };
 
   // Handle unsubscribing (update server and state)
@@ -123,6 +281,7 @@ export default function Subscriptions() {
         body: JSON.stringify({ term, category }),
       });
       if (!response.ok) throw new Error("Failed to unsubscribe");
+      setLastChange(`Unsubscribed from ${term}.`);
       switch (category.toLowerCase()) {
         case "league":
           setLeagues(leagues.filter((item: string) => item !== term));
@@ -133,6 +292,23 @@ export default function Subscriptions() {
         case "player":
           setPlayers(players.filter((item: string) => item !== term));
           break;
+        case "tournament":
+          setTournaments(tournaments.filter((item: string) => item !== term));
+          break;
+        default: {
+          // Custom category; it goes away with its last subscription
+          const remaining = (custom[category] || []).filter(
+            (item: string) => item !== term
+          );
+          const next = { ...custom };
+          if (remaining.length > 0) {
+            next[category] = remaining;
+          } else {
+            delete next[category];
+          }
+          setCustom(next);
+          break;
+        }
       }
     } catch (error: unknown) {
       // Use 'unknown' for caught errors
@@ -143,6 +319,144 @@ export default function Subscriptions() {
     }
   };
 
+  // Reverse the most recent change (unsubscribe, rename, import, ...)
+  const handleUndo = async () => {
+    setError(null);
+    try {
+      const response = await fetch("/api/subscriptions/undo", {
+        method: "POST",
+      });
+      const result: UndoResponse = await response.json();
+      if (result.subscriptions) showSubscriptions(result.subscriptions);
+      if (!response.ok) {
+        setError(result.error || "Failed to undo.");
+      }
+      setLastChange(null);
+    } catch (error: unknown) {
+      console.error("Error undoing:", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      setError("Failed to undo.");
+    }
+  };
+
+  // Rename a follow, e.g. to fix a typo
+  const handleRename = async (term: string, category: string) => {
+    const newTerm = prompt(`Rename "${term}" to:`, term);
+    if (!newTerm || newTerm.trim() === term) return;
+
+    setError(null);
+    try {
+      const response = await fetch("/api/subscriptions", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ term, category, newTerm }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || "Failed to rename.");
+        return;
+      }
+      const subs: SubscriptionsResponse = await (
+        await fetch("/api/subscriptions")
+      ).json();
+      showSubscriptions(subs);
+      setLastChange(`Renamed ${term} to ${result.term}.`);
+    } catch (error: unknown) {
+      console.error("Error renaming:", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      setError("Failed to rename.");
+    }
+  };
+
+  const settingsFor = (term: string, category: string) =>
+    settings[settingsKey(term, category)] || defaultSettings();
+
+  // Open the settings form for a follow, or close it if already open
+  const toggleSettings = (term: string, category: string) => {
+    if (editing?.term === term && editing.category === category) {
+      setEditing(null);
+      return;
+    }
+    const current = settingsFor(term, category);
+    setEditing({ term, category });
+    setDraft({
+      priority: current.priority,
+      mutedUntil:
+        current.mutedUntil && isMuted(current)
+          ? current.mutedUntil.split("T")[0]
+          : "",
+      include: current.include.join(", "),
+      exclude: current.exclude.join(", "),
+    });
+  };
+
+  const handleSaveSettings = async () => {
+    if (!editing || !draft) return;
+    const keywords = (text: string) =>
+      text
+        .split(",")
+        .map((keyword) => keyword.trim())
+        .filter(Boolean);
+
+    setError(null);
+    try {
+      const response = await fetch("/api/subscriptions/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...editing,
+          settings: {
+            priority: draft.priority,
+            // Muted through the end of the chosen day, local time
+            mutedUntil: draft.mutedUntil
+              ? new Date(`${draft.mutedUntil}T23:59:59`).toISOString()
+              : undefined,
+            include: keywords(draft.include),
+            exclude: keywords(draft.exclude),
+          },
+        }),
+      });
+      const result: SettingsResponse = await response.json();
+      if (!response.ok || !result.settings) {
+        setError(result.error || "Failed to save settings.");
+        return;
+      }
+      setSettings((prev) => ({
+        ...prev,
+        [settingsKey(editing.term, editing.category)]:
+          result.settings as SubscriptionSettings,
+      }));
+      setEditing(null);
+    } catch (error: unknown) {
+      console.error("Error saving subscription settings:", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      setError("Failed to save settings.");
+    }
+  };
+
+  // Small labels for settings that differ from the defaults
+  const renderBadges = (term: string, category: string) => {
+    const current = settingsFor(term, category);
+    return (
+      <span className="text-xs text-gray-600 ml-2 flex gap-1">
+        {isMuted(current) && (
+          <span className="bg-gray-200 rounded px-2 py-0.5">Muted</span>
+        )}
+        {current.priority !== DEFAULT_PRIORITY && (
+          <span className="bg-blue-100 rounded px-2 py-0.5">
+            Priority {current.priority}
+          </span>
+        )}
+        {(current.include.length > 0 || current.exclude.length > 0) && (
+          <span className="bg-yellow-100 rounded px-2 py-0.5">Filtered</span>
+        )}
+      </span>
+    );
+  };
+
   return (
     <div className="max-w-3xl mx-auto p-5 bg-gray-50">
       <h1 className="text-4xl text-gray-800 text-center mb-5 font-bold">
@@ -154,6 +468,159 @@ export default function Subscriptions() {
         <Link href="/" className="text-blue-500 hover:text-blue-700 underline">
           Back to Home
         </Link>
+        {" · "}
+        <Link
+          href="/subscriptions/history"
+          className="text-blue-500 hover:text-blue-700 underline"
+        >
+          History
+        </Link>
+      </div>
+
+      {/* Undo the last change */}
+      {lastChange && (
+        <div className="bg-yellow-50 p-3 mb-5 rounded-lg border border-yellow-200 flex justify-between items-center">
+          <span className="text-gray-800">{lastChange}</span>
+          <button
+            onClick={handleUndo}
+            className="text-blue-500 hover:text-blue-700 underline"
+          >
+            Undo
+          </button>
+        </div>
+      )}
+
+      {/* Settings for one follow */}
+      {editing && draft && (
+        <div className="bg-white p-4 mb-5 rounded-lg border border-blue-300 shadow-sm flex flex-col gap-3">
+          <h2 className="text-xl text-gray-800 font-bold">
+            Settings for {editing.term}
+          </h2>
+          <label className="flex justify-between items-center gap-3 text-gray-800">
+            Priority
+            <select
+              value={draft.priority}
+              onChange={(e) =>
+                setDraft({ ...draft, priority: Number(e.target.value) })
+              }
+              className="p-2 border border-gray-300 rounded-md"
+            >
+              {Array.from(
+                { length: MAX_PRIORITY - MIN_PRIORITY + 1 },
+                (_, index) => MIN_PRIORITY + index
+              ).map((priority) => (
+                <option key={priority} value={priority}>
+                  {priority}
+                  {priority === DEFAULT_PRIORITY ? " (default)" : ""}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex justify-between items-center gap-3 text-gray-800">
+            Mute until
+            <input
+              type="date"
+              value={draft.mutedUntil}
+              onChange={(e) =>
+                setDraft({ ...draft, mutedUntil: e.target.value })
+              }
+              className="p-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="flex justify-between items-center gap-3 text-gray-800">
+            Only news mentioning
+            <input
+              type="text"
+              value={draft.include}
+              onChange={(e) => setDraft({ ...draft, include: e.target.value })}
+              placeholder="e.g. injury, transfer"
+              className="p-2 border border-gray-300 rounded-md flex-1"
+            />
+          </label>
+          <label className="flex justify-between items-center gap-3 text-gray-800">
+            Hide news mentioning
+            <input
+              type="text"
+              value={draft.exclude}
+              onChange={(e) => setDraft({ ...draft, exclude: e.target.value })}
+              placeholder="e.g. rumour"
+              className="p-2 border border-gray-300 rounded-md flex-1"
+            />
+          </label>
+          <div className="flex gap-3 justify-end">
+            <button
+              onClick={() => setEditing(null)}
+              className="text-gray-600 hover:text-gray-800 underline"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveSettings}
+              className="p-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Import / Export */}
+      <div className="bg-white p-4 mb-5 rounded-lg border border-gray-300 shadow-sm flex flex-col gap-3">
+        <div className="flex gap-4 justify-center">
+          <a
+            href="/api/subscriptions/export?format=json"
+            className="p-2 px-4 bg-blue-500 text-white rounded-lg shadow-md hover:bg-blue-600 transition-colors"
+          >
+            Export JSON
+          </a>
+          <a
+            href="/api/subscriptions/export?format=opml"
+            className="p-2 px-4 bg-blue-500 text-white rounded-lg shadow-md hover:bg-blue-600 transition-colors"
+          >
+            Export OPML
+          </a>
+        </div>
+        <div className="flex gap-3 justify-center items-center">
+          <input
+            type="file"
+            accept=".json,.opml,.xml,application/json,text/x-opml,text/xml"
+            onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+            className="text-sm text-gray-700"
+          />
+          <select
+            value={importMode}
+            onChange={(e) =>
+              setImportMode(e.target.value as "merge" | "replace")
+            }
+            className="p-2 border border-gray-300 rounded-lg shadow-sm"
+          >
+            <option value="merge">Merge</option>
+            <option value="replace">Replace</option>
+          </select>
+          <button
+            onClick={handleImport}
+            disabled={!importFile}
+            className="p-2 px-4 bg-green-500 text-white rounded-lg shadow-md hover:bg-green-600 transition-colors disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+        {importReport && (
+          <div className="text-sm text-gray-700 text-center">
+            Added {importReport.added?.length || 0}, skipped{" "}
+            {importReport.skipped?.length || 0} already followed, rejected{" "}
+            {importReport.rejected?.length || 0}.
+            {(importReport.rejected?.length || 0) > 0 && (
+              <ul className="list-none p-0 mt-2 text-red-600">
+                {importReport.rejected?.map((item, index) => (
+                  <li key={index}>
+                    {item.term} ({item.category}): {item.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Leagues */}
@@ -171,6 +638,27 @@ export default function Subscriptions() {
               onClick={() => fetchNewsForSubscription(league)}
             >
               <span className="text-gray-800">{league}</span>
+              {renderBadges(league, "league")}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleSettings(league, "league");
+                }}
+                title="Settings"
+                className="text-gray-500 hover:text-gray-700 ml-auto"
+              >
+                ⚙
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRename(league, "league");
+                }}
+                title="Rename"
+                className="text-gray-500 hover:text-gray-700 ml-2"
+              >
+                ✎
+              </button>
               <button
                 onClick={(e) => {
                   e.stopPropagation();
@@ -200,6 +688,27 @@ export default function Subscriptions() {
               onClick={() => fetchNewsForSubscription(team)}
             >
               <span className="text-gray-800">{team}</span>
+              {renderBadges(team, "team")}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleSettings(team, "team");
+                }}
+                title="Settings"
+                className="text-gray-500 hover:text-gray-700 ml-auto"
+              >
+                ⚙
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRename(team, "team");
+                }}
+                title="Rename"
+                className="text-gray-500 hover:text-gray-700 ml-2"
+              >
+                ✎
+              </button>
               <button
                 onClick={(e) => {
                   e.stopPropagation();
@@ -231,6 +740,27 @@ export default function Subscriptions() {
               onClick={() => fetchNewsForSubscription(player)}
             >
               <span className="text-gray-800">{player}</span>
+              {renderBadges(player, "player")}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleSettings(player, "player");
+                }}
+                title="Settings"
+                className="text-gray-500 hover:text-gray-700 ml-auto"
+              >
+                ⚙
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRename(player, "player");
+                }}
+                title="Rename"
+                className="text-gray-500 hover:text-gray-700 ml-2"
+              >
+                ✎
+              </button>
               <button
                 onClick={(e) => {
                   e.stopPropagation();
@@ -260,6 +790,27 @@ export default function Subscriptions() {
               onClick={() => fetchNewsForSubscription(tournament)}
             >
               <span className="text-gray-800">{tournament}</span>
+              {renderBadges(tournament, "tournament")}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleSettings(tournament, "tournament");
+                }}
+                title="Settings"
+                className="text-gray-500 hover:text-gray-700 ml-auto"
+              >
+                ⚙
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRename(tournament, "tournament");
+                }}
+                title="Rename"
+                className="text-gray-500 hover:text-gray-700 ml-2"
+              >
+                ✎
+              </button>
               <button
                 onClick={(e) => {
                   e.stopPropagation();
@@ -274,21 +825,91 @@ export default function Subscriptions() {
         </ul>
       )}
 
+      {/* Custom Categories */}
+      {Object.keys(custom)
+        .sort()
+        .map((name: string) => (
+          <div key={name}>
+            <h2 className="text-2xl text-gray-800 mb-3 font-bold border-b border-gray-300 pb-2 capitalize">
+              {name}
+            </h2>
+            <ul className="list-none p-0 m-0 mb-4">
+              {custom[name].map((term: string) => (
+                <li
+                  key={term}
+                  className="bg-white p-3 mb-3 rounded-lg border border-gray-300 shadow-sm hover:bg-gray-200 transition-colors flex justify-between items-center cursor-pointer"
+                  onClick={() => fetchNewsForSubscription(term)}
+                >
+                  <span className="text-gray-800">{term}</span>
+                  {renderBadges(term, name)}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleSettings(term, name);
+                    }}
+                    title="Settings"
+                    className="text-gray-500 hover:text-gray-700 ml-auto"
+                  >
+                    ⚙
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRename(term, name);
+                    }}
+                    title="Rename"
+                    className="text-gray-500 hover:text-gray-700 ml-2"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleUnsubscribe(term, name);
+                    }}
+                    className="text-red-500 hover:text-red-700 ml-2"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+
       {/* News Feed for Selected Subscription */}
       {news.length > 0 && (
         <div className="mt-8">
           <h2 className="text-2xl text-gray-800 mb-3 font-bold">
             News for Selected Subscription
           </h2>
+          {/* Stale Notice: some items are the last saved results */}
+          {news.some((item) => item.stale) && (
+            <div className="text-gray-700 bg-gray-100 p-3 rounded-lg mb-5 text-center">
+              Live news is unavailable right now. Items marked “Saved copy” are
+              the last saved results.
+            </div>
+          )}
           <ul className="list-none p-0 m-0">
             {news.map(
-              (item: { title: string; date: string }, index: number) => (
+              (
+                item: { title: string; date: string; stale?: boolean },
+                index: number
+              ) => (
                 <li
                   key={index}
                   className="bg-white p-4 mb-4 rounded-lg border border-gray-200 shadow-md hover:shadow-lg transition-shadow duration-200 flex flex-col gap-2"
                 >
                   <div className="text-gray-800 font-semibold">
                     {item.title}
+                    {item.stale && (
+                      <span
+                        title="Live news is unavailable; this is the last saved result"
+                        className="ml-2 px-2 py-0.5 rounded bg-gray-200 text-gray-700 text-xs font-normal"
+                      >
+                        Saved copy
+                      </span>
+                    )}
                   </div>
                   <div className="text-sm text-gray-500 italic">
                     {item.date}
@@ -297,6 +918,10 @@ export default function Subscriptions() {
               )
             )}
           </ul>
+          <div ref={newsEndRef} />
+          {isLoadingMore && (
+            <p className="text-gray-500 italic text-center">Loading more…</p>
+          )}
           <div className="text-center mt-4">
             <button
               onClick={clearNews}
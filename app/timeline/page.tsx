@@ -3,23 +3,54 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import axios from "axios";
+import type { NewsItem, PageInfo } from "@/app/lib/news/types";
+import { useInfiniteScroll } from "@/app/lib/infiniteScroll";
 
 // Define the type for the API response
 // Define the type for the API response
 // Define the type for the API response
 interface NewsResponse {
-  news: { id: string; title: string; date: string; url: string }[];
+  news: NewsListItem[];
+  stale?: boolean;
+  page?: PageInfo;
   error?: string;
 }
 
+// News items as rendered here
+type NewsListItem = Pick<
+  NewsItem,
+  "id" | "title" | "date" | "url" | "urlStatus" | "verified"
+> &
+  Partial<Pick<NewsItem, "related">> & {
+    stale?: boolean; // Served from the last good result while live news was unavailable
+  };
+
+// Copy the response-level stale marker onto each item so it survives merging lists
+function withStaleFlag(data: NewsResponse): NewsListItem[] {
+  return data.news.map((item) => ({ ...item, stale: data.stale }));
+}
+
+// Append items that aren't in the list yet
+function withNewItems(
+  list: NewsListItem[],
+  items: NewsListItem[]
+): NewsListItem[] {
+  return [
+    ...list,
+    ...items.filter((item) => !list.some((other) => other.id === item.id)),
+  ];
+}
+
 export default function Timeline() {
-  const [timelineNews, setTimelineNews] = useState<
-    { id: string; title: string; date: string; url: string }[]
-  >([]);
-  const [upcomingGames, setUpcomingGames] = useState<
-    { id: string; title: string; date: string; url: string }[]
-  >([]);
+  const [timelineNews, setTimelineNews] = useState<NewsListItem[]>([]);
+  const [upcomingGames, setUpcomingGames] = useState<NewsListItem[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [hideUnverified, setHideUnverified] = useState<boolean>(false); // Hide items whose links failed verification
+  const [newsCursor, setNewsCursor] = useState<string | null>(null); // Loads older news; null when there is none
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
+  const [expandedStories, setExpandedStories] = useState<
+    Record<string, boolean>
+  >({}); // Stories whose related reports are shown, by id
 
   // Fetch timeline news and upcoming games
   useEffect(() => {
@@ -32,7 +63,7 @@ export default function Timeline() {
       // Fetch latest football news
       const newsResponse = await axios.post<NewsResponse>(
         "/api/news",
-        { q: "latest football news" },
+        { kind: "latest" },
         {
           headers: {
             "Content-Type": "application/json",
@@ -40,25 +71,16 @@ export default function Timeline() {
         }
       );
       if (newsResponse.data.news) {
-        setTimelineNews(newsResponse.data.news);
+        setTimelineNews(withStaleFlag(newsResponse.data));
+        setNewsCursor(newsResponse.data.page?.before || null);
       } else if (newsResponse.data.error) {
         setError(newsResponse.data.error);
-        setTimelineNews([
-          {
-            id: `${Date.now()}`,
-            title: "Couldn’t fetch timeline news.",
-            date: new Date().toISOString().split("T")[0],
-            url: "https://example.com/placeholder",
-          },
-        ]);
       }
 
       // Fetch upcoming important European games (simulated with a prompt to xAI)
       const gamesResponse = await axios.post<NewsResponse>(
         "/api/news",
-        {
-          q: "list upcoming important football matches in Europe for the next 7 days, one per line, include dates and teams, no extra text or formatting",
-        },
+        { kind: "fixtures", days: 7 },
         {
           headers: {
             "Content-Type": "application/json",
@@ -66,21 +88,13 @@ export default function Timeline() {
         }
       );
       if (gamesResponse.data.news) {
-        setUpcomingGames(gamesResponse.data.news);
+        setUpcomingGames(withStaleFlag(gamesResponse.data));
       } else if (gamesResponse.data.error) {
         setError((prev) =>
           prev
             ? `${prev}\nCouldn’t fetch upcoming games.`
             : "Couldn’t fetch upcoming games."
         );
-        setUpcomingGames([
-          {
-            id: `${Date.now()}`,
-            title: "Couldn’t fetch upcoming games.",
-            date: new Date().toISOString().split("T")[0],
-            url: "https://example.com/placeholder",
-          },
-        ]);
       }
     } catch (error: unknown) {
       console.error("Error fetching timeline data:", {
@@ -88,28 +102,46 @@ export default function Timeline() {
         stack: error instanceof Error ? error.stack : undefined,
       });
       setError("Failed to fetch timeline data.");
-      setTimelineNews([
-        {
-          id: `${Date.now()}`,
-          title: "Couldn’t fetch timeline news.",
-          date: new Date().toISOString().split("T")[0],
-          url: "https://example.com/placeholder",
-        },
-      ]);
-      setUpcomingGames([
-        {
-          id: `${Date.now()}`,
-          title: "Couldn’t fetch upcoming games.",
-          date: new Date().toISOString().split("T")[0],
-          url: "https://example.com/placeholder",
-        },
-      ]);
     }
   };
 
+  // Show or hide the other reports of a story
+  const toggleStory = (id: string) => {
+    setExpandedStories((prev) => ({ ...prev, [id]: !prev[id] }));
+  };
+
+  // Add older news as the end of the list scrolls into view
+  const loadMoreNews = async () => {
+    if (!newsCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const response = await axios.post<NewsResponse>("/api/news", {
+        kind: "latest",
+        before: newsCursor,
+      });
+      setTimelineNews((prevNews) =>
+        withNewItems(prevNews, withStaleFlag(response.data))
+      );
+      setNewsCursor(response.data.page?.before || null);
+    } catch (error: unknown) {
+      console.error("Error fetching more timeline news:", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      setNewsCursor(null); // Stop trying until the timeline is reset
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const newsEndRef = useInfiniteScroll<HTMLDivElement>(
+    loadMoreNews,
+    !!newsCursor && !isLoadingMore
+  );
+
   // Reset the timeline (fetch new data)
   const resetTimeline = () => {
     setTimelineNews([]);
+    setNewsCursor(null);
     setUpcomingGames([]);
     fetchTimelineData();
   };
@@ -127,52 +159,124 @@ export default function Timeline() {
         </Link>
       </div>
 
+      {/* Hide items whose links could not be verified */}
+      <div className="text-center mb-5">
+        <label className="text-gray-700">
+          <input
+            type="checkbox"
+            checked={hideUnverified}
+            onChange={(e) => setHideUnverified(e.target.checked)}
+            className="mr-2"
+          />
+          Hide unverified news
+        </label>
+      </div>
+
+      {/* Stale Notice: some items are the last saved results */}
+      {[...timelineNews, ...upcomingGames].some((item) => item.stale) && (
+        <div className="text-gray-700 bg-gray-100 p-3 rounded-lg mb-5 text-center">
+          Live news is unavailable right now. Items marked “Saved copy” are the
+          last saved results.
+        </div>
+      )}
+
       {/* Timeline News */}
       <div>
         <h2 className="text-2xl text-gray-800 mb-3 font-bold">Latest News</h2>
         {timelineNews.length === 0 ? (
-          <p className="text-gray-500 italic">Loading news...</p>
+          <p className="text-gray-500 italic">
+            {error ? "No news to show." : "Loading news..."}
+          </p>
         ) : (
           <ul className="list-none p-0 m-0">
-            {timelineNews.map(
-              (
-                item: { id: string; title: string; date: string; url: string },
-                index: number
-              ) => (
+            {timelineNews
+              .filter((item) => !hideUnverified || item.verified !== false)
+              .map((item: NewsListItem, index: number) => (
                 <li
                   key={index}
                   className="bg-white p-4 mb-4 rounded-lg border border-gray-200 shadow-md hover:shadow-lg transition-shadow duration-200 flex flex-col gap-2"
                 >
                   <div className="text-gray-800 font-semibold">
                     {item.title}
+                    {item.stale && (
+                      <span
+                        title="Live news is unavailable; this is the last saved result"
+                        className="ml-2 px-2 py-0.5 rounded bg-gray-200 text-gray-700 text-xs font-normal"
+                      >
+                        Saved copy
+                      </span>
+                    )}
+                    {item.verified === false && (
+                      <span
+                        title={`Link not verified (${item.urlStatus})`}
+                        className="ml-2 px-2 py-0.5 rounded bg-yellow-100 text-yellow-800 text-xs font-normal"
+                      >
+                        Unverified
+                      </span>
+                    )}
                   </div>
                   <div className="text-sm text-gray-500 italic">
                     {item.date}
                   </div>
                   <div className="flex justify-between items-center">
-                    <a
-                      href={item.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-500 hover:underline text-sm"
-                    >
-                      Explore More
-                    </a>
+                    {item.urlStatus !== "placeholder" &&
+                      item.urlStatus !== "malformed" && (
+                        <a
+                          href={item.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-500 hover:underline text-sm"
+                        >
+                          Explore More
+                        </a>
+                      )}
                     <Link
-                      href={{
-                        pathname: `/news/${item.id}`,
-                        query: { title: item.title },
-                      }}
+                      href={`/news/${item.id}`}
                       className="text-green-500 hover:underline text-sm"
                     >
                       Brief Summary
                     </Link>
                   </div>
+                  {item.related && item.related.length > 0 && (
+                    <div>
+                      <button
+                        onClick={() => toggleStory(item.id)}
+                        className="text-sm text-gray-600 hover:underline"
+                      >
+                        {expandedStories[item.id] ? "▾" : "▸"}{" "}
+                        {item.related.length} related{" "}
+                        {item.related.length === 1 ? "report" : "reports"}
+                      </button>
+                      {expandedStories[item.id] && (
+                        <ul className="list-none mt-2 pl-3 border-l-2 border-gray-200 flex flex-col gap-1">
+                          {item.related.map((report) => (
+                            <li
+                              key={report.id}
+                              className="text-sm text-gray-700"
+                            >
+                              <Link
+                                href={`/news/${report.id}`}
+                                className="hover:underline"
+                              >
+                                {report.title}
+                              </Link>{" "}
+                              <span className="text-gray-500">
+                                · {report.source} · {report.date}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
                 </li>
-              )
-            )}
+              ))}
           </ul>
         )}
+        <div ref={newsEndRef} />
+        {isLoadingMore && (
+          <p className="text-gray-500 italic text-center">Loading more…</p>
+        )}
       </div>
 
       {/* Upcoming Games */}
@@ -181,46 +285,61 @@ export default function Timeline() {
           Upcoming Important European Games
         </h2>
         {upcomingGames.length === 0 ? (
-          <p className="text-gray-500 italic">Loading games...</p>
+          <p className="text-gray-500 italic">
+            {error ? "No games to show." : "Loading games..."}
+          </p>
         ) : (
           <ul className="list-none p-0 m-0">
-            {upcomingGames.map(
-              (
-                game: { id: string; title: string; date: string; url: string },
-                index: number
-              ) => (
+            {upcomingGames
+              .filter((item) => !hideUnverified || item.verified !== false)
+              .map((game: NewsListItem, index: number) => (
                 <li
                   key={index}
                   className="bg-white p-4 mb-4 rounded-lg border border-gray-200 shadow-md hover:shadow-lg transition-shadow duration-200 flex flex-col gap-2"
                 >
                   <div className="text-gray-800 font-semibold">
                     {game.title}
+                    {game.stale && (
+                      <span
+                        title="Live news is unavailable; this is the last saved result"
+                        className="ml-2 px-2 py-0.5 rounded bg-gray-200 text-gray-700 text-xs font-normal"
+                      >
+                        Saved copy
+                      </span>
+                    )}
+                    {game.verified === false && (
+                      <span
+                        title={`Link not verified (${game.urlStatus})`}
+                        className="ml-2 px-2 py-0.5 rounded bg-yellow-100 text-yellow-800 text-xs font-normal"
+                      >
+                        Unverified
+                      </span>
+                    )}
                   </div>
                   <div className="text-sm text-gray-500 italic">
                     {game.date}
                   </div>
                   <div className="flex justify-between items-center">
-                    <a
-                      href={game.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-500 hover:underline text-sm"
-                    >
-                      Explore More
-                    </a>
+                    {game.urlStatus !== "placeholder" &&
+                      game.urlStatus !== "malformed" && (
+                        <a
+                          href={game.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-500 hover:underline text-sm"
+                        >
+                          Explore More
+                        </a>
+                      )}
                     <Link
-                      href={{
-                        pathname: `/news/${game.id}`,
-                        query: { title: game.title },
-                      }}
+                      href={`/news/${game.id}`}
                       className="text-green-500 hover:underline text-sm"
                     >
                       Brief Summary
                     </Link>
                   </div>
                 </li>
-              )
-            )}
+              ))}
           </ul>
         )}
       </div>
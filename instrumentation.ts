@@ -0,0 +1,10 @@
+// Runs once when the server starts. Starts the background news refresh when
+// NEWS_REFRESH_INTERVAL_SECONDS is set (see app/lib/news/worker.ts). The
+// import sits inside the runtime check so the edge bundle never includes it
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { getRefreshIntervalMs, startRefreshWorker } =
+      await import("@/app/lib/news/worker");
+    if (getRefreshIntervalMs() > 0) startRefreshWorker();
+  }
+}
@@ -0,0 +1,48 @@
+// Copies every stored document (subscriptions, articles, ...) from one storage
+// backend to another. Usage:
+//
+//   npm run storage:migrate -- --from json --to sqlite
+//
+// The backends read the same environment variables as the app
+// (STORAGE_JSON_DIR, SUBSCRIPTIONS_FILE, ARTICLES_FILE, STORAGE_SQLITE_FILE)
+import {
+  createStorageBackend,
+  isStorageBackendName,
+  migrateStorage,
+  StorageBackendName,
+} from "@/app/lib/storage";
+
+function readBackendArg(flag: string): StorageBackendName {
+  const index = process.argv.indexOf(flag);
+  const value = index === -1 ? undefined : process.argv[index + 1];
+  if (!value || !isStorageBackendName(value)) {
+    throw new Error(`${flag} must be one of: json, sqlite, memory`);
+  }
+  return value;
+}
+
+async function main() {
+  const from = readBackendArg("--from");
+  const to = readBackendArg("--to");
+  if (from === to) {
+    throw new Error("--from and --to must be different backends");
+  }
+  if (from === "memory" || to === "memory") {
+    // The memory backend lives inside a running server, not in this process
+    throw new Error(
+      "The memory backend can't be migrated from the command line"
+    );
+  }
+
+  const copied = await migrateStorage(
+    await createStorageBackend(from),
+    await createStorageBackend(to),
+    (name) => console.log(`Copied ${name}`)
+  );
+  console.log(`Migrated ${copied.length} document(s) from ${from} to ${to}`);
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+// Upgrades every stored subscriptions document to the current schema
+// version. Usage:
+//
+//   npm run subscriptions:migrate -- --dry-run
+//   npm run subscriptions:migrate
+//
+// --dry-run only lists the documents and migration steps. The storage backend
+// is picked the same way as in the app (STORAGE_BACKEND and friends)
+import { getStorageBackendName } from "@/app/lib/storage";
+import { SUBSCRIPTIONS_VERSION } from "@/app/lib/subscriptions/migrations";
+import { upgradeStoredSubscriptions } from "@/app/lib/subscriptions/repository";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  if (getStorageBackendName() === "memory") {
+    // The memory backend lives inside a running server, not in this process
+    throw new Error(
+      "The memory backend can't be migrated from the command line"
+    );
+  }
+
+  const upgrades = await upgradeStoredSubscriptions(dryRun, (upgrade) => {
+    console.log(
+      `${dryRun ? "Would upgrade" : "Upgraded"} ${upgrade.name} from v${
+        upgrade.from
+      }:`
+    );
+    upgrade.applied.forEach((step) => console.log(`  ${step}`));
+  });
+  console.log(
+    `${upgrades.length} document(s) ${
+      dryRun ? "need upgrading" : "upgraded"
+    } to v${SUBSCRIPTIONS_VERSION}`
+  );
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+// Fetches news for everything anyone follows, outside the web server.
+// Usage:
+//
+//   npm run news:refresh -- --once   # one pass, then exit
+//   npm run news:refresh             # a pass every NEWS_REFRESH_INTERVAL_SECONDS
+//
+// Results are written to storage, so the server picks them up on its next
+// request for the same query. Use the same STORAGE_* and LLM_* settings as
+// the server
+import { getStorageBackendName } from "@/app/lib/storage";
+import {
+  getRefreshIntervalMs,
+  runRefreshPass,
+  RefreshPassResult,
+  startRefreshWorker,
+} from "@/app/lib/news/worker";
+
+function report(result: RefreshPassResult) {
+  console.log(
+    `Refreshed ${result.refreshed} queries in ${result.durationMs}ms, pruned ${result.pruned}`
+  );
+  result.failed.forEach(({ query, error }) =>
+    console.log(`  Failed ${query}: ${error}`)
+  );
+}
+
+async function main() {
+  if (getStorageBackendName() === "memory") {
+    // The server couldn't see anything this process stored in memory
+    throw new Error(
+      "The memory backend can't be refreshed from the command line"
+    );
+  }
+
+  if (process.argv.includes("--once")) {
+    const result = await runRefreshPass();
+    report(result);
+    if (result.refreshed === 0 && result.failed.length > 0) process.exit(1);
+    return;
+  }
+
+  const intervalMs = getRefreshIntervalMs();
+  if (intervalMs <= 0) {
+    throw new Error(
+      "Set NEWS_REFRESH_INTERVAL_SECONDS, or pass --once for a single pass"
+    );
+  }
+  startRefreshWorker(intervalMs, report);
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
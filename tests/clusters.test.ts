@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { clusterStories, mergeStories } from "@/app/lib/news/clusters";
+import { NewsItem } from "@/app/lib/news/types";
+
+let nextId = 0;
+
+function item(
+  title: string,
+  entities: string[],
+  overrides: Partial<NewsItem> = {}
+): NewsItem {
+  nextId++;
+  return {
+    id: `item-${nextId}`,
+    title,
+    date: "2025-10-18",
+    url: `https://www.bbc.co.uk/sport/football/articles/${nextId}`,
+    source: "BBC Sport",
+    entities,
+    confidence: 0.9,
+    urlStatus: "allow-listed",
+    verified: true,
+    ...overrides,
+  };
+}
+
+function isOneStory(a: NewsItem, b: NewsItem): boolean {
+  return clusterStories([a, b]).length === 1;
+}
+
+describe("clusterStories", () => {
+  test("groups reports that share most of their title", () => {
+    assert.ok(
+      isOneStory(
+        item("Salah signs new Liverpool contract", []),
+        item("Salah signs a new contract with Liverpool", [])
+      )
+    );
+  });
+
+  test("groups reports that share an entity and the story's words", () => {
+    assert.ok(
+      isOneStory(
+        item("Fenerbahce win Istanbul derby", ["Fenerbahçe"]),
+        item("Fenerbahçe beat Galatasaray in Istanbul derby", [
+          "Fenerbahçe",
+          "Galatasaray",
+        ])
+      )
+    );
+  });
+
+  test("groups reports linking to the same article", () => {
+    assert.ok(
+      isOneStory(
+        item("Haaland hat-trick", [], { url: "https://www.bbc.co.uk/a/1" }),
+        item("Man City cruise", [], { url: "https://www.bbc.co.uk/a/1/" })
+      )
+    );
+  });
+
+  test("keeps apart stories about one entity with different topics", () => {
+    assert.ok(
+      !isOneStory(
+        item("Arsenal injury news", ["Arsenal"]),
+        item("Arsenal transfer news", ["Arsenal"])
+      )
+    );
+  });
+
+  test("keeps a preview apart from the match report", () => {
+    assert.ok(
+      !isOneStory(
+        item("Arsenal vs Chelsea preview", ["Arsenal", "Chelsea"]),
+        item("Arsenal vs Chelsea match report", ["Arsenal", "Chelsea"])
+      )
+    );
+  });
+
+  test("keeps apart reports sharing only one word besides the entity", () => {
+    assert.ok(
+      !isOneStory(
+        item("Galatasaray win derby", ["Galatasaray"]),
+        item("Galatasaray fans banned from derby", ["Galatasaray"])
+      )
+    );
+  });
+
+  test("keeps apart similar reports dated too far apart", () => {
+    assert.ok(
+      !isOneStory(
+        item("Salah signs new Liverpool contract", []),
+        item("Salah signs new Liverpool contract", [], { date: "2025-10-10" })
+      )
+    );
+  });
+
+  test("lists the other reports of a story under its first item", () => {
+    const first = item("Mbappe scores twice as Real Madrid win", [
+      "Kylian Mbappé",
+    ]);
+    const other = item("Arsenal injury news", ["Arsenal"]);
+    const related = item("Real Madrid win as Mbappe scores twice", [
+      "Real Madrid",
+    ]);
+    assert.deepEqual(clusterStories([first, other, related]), [
+      { first, related: [related] },
+      { first: other, related: [] },
+    ]);
+  });
+});
+
+describe("mergeStories", () => {
+  test("puts another report of a listed story under it", () => {
+    const listed = item("Fenerbahce win Istanbul derby", ["Fenerbahçe"]);
+    const other = item("Arsenal injury news", ["Arsenal"]);
+    const report = item("Fenerbahçe beat Galatasaray in Istanbul derby", [
+      "Fenerbahçe",
+      "Galatasaray",
+    ]);
+    assert.deepEqual(mergeStories([listed], [report, other]), [
+      { ...listed, related: [report] },
+      other,
+    ]);
+  });
+
+  test("skips stories and reports already listed", () => {
+    const listed = item("Fenerbahce win Istanbul derby", ["Fenerbahçe"]);
+    const report = item("Fenerbahçe beat Galatasaray in Istanbul derby", [
+      "Fenerbahçe",
+    ]);
+    const list = mergeStories([listed], [report]);
+    assert.deepEqual(
+      mergeStories(list, [{ ...report, related: [listed] }, listed]),
+      list
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { describe, test } from "node:test";
+import { FeedConfig } from "@/app/lib/feeds/config";
+import { normalizeEntry } from "@/app/lib/feeds/ingest";
+import { FeedParseError, parseFeed } from "@/app/lib/feeds/parser";
+import { newsItemId } from "@/app/lib/news/ids";
+import { NewsItem } from "@/app/lib/news/types";
+
+const FETCHED_AT = "2025-10-19T12:00:00.000Z";
+
+function fixture(name: string): string {
+  return fs.readFileSync(
+    path.join(__dirname, "fixtures", "feeds", name),
+    "utf8"
+  );
+}
+
+// Parse a fixture and normalize every entry, keeping the dropped ones as null
+function ingest(name: string, feed: FeedConfig, fetchedAt = FETCHED_AT) {
+  const parsed = parseFeed(fixture(name));
+  return parsed.entries.map((entry) =>
+    normalizeEntry(entry, feed, parsed.title, fetchedAt)
+  );
+}
+
+function assertStableId(item: NewsItem | null): asserts item is NewsItem {
+  assert.ok(item);
+  assert.match(item.id, /^[0-9a-f]{16}$/);
+  assert.equal(item.id, newsItemId(item));
+}
+
+describe("parseFeed", () => {
+  test("reads RSS 2.0 items, CDATA titles and encoded descriptions", () => {
+    const parsed = parseFeed(fixture("rss2.xml"));
+    assert.equal(parsed.format, "rss");
+    assert.equal(parsed.title, "BBC Sport - Football");
+    assert.equal(parsed.entries.length, 5);
+    assert.deepEqual(parsed.entries[0], {
+      title: "Arsenal & Chelsea draw in London derby",
+      link: "https://www.bbc.co.uk/sport/football/articles/derby",
+      published: "Sat, 18 Oct 2025 17:30:00 GMT",
+      summary: "Both sides dropped points.",
+      categories: ["Premier League", "Opinion"],
+    });
+  });
+
+  test("falls back to a permalink guid and dc:date", () => {
+    const [, salah, undated, opaqueGuid, untitled] = parseFeed(
+      fixture("rss2.xml")
+    ).entries;
+    assert.equal(
+      salah.link,
+      "https://www.bbc.co.uk/sport/football/articles/salah"
+    );
+    assert.equal(salah.published, "2025-10-17T09:00:00Z");
+    assert.equal(undated.published, undefined);
+    assert.equal(opaqueGuid.link, "");
+    assert.equal(untitled.title, "");
+  });
+
+  test("reads RSS 1.0 (RDF) items and skips commented-out ones", () => {
+    const parsed = parseFeed(fixture("rdf.xml"));
+    assert.equal(parsed.format, "rss");
+    assert.equal(parsed.title, "Sky Sports Football");
+    assert.deepEqual(
+      parsed.entries.map((entry) => entry.title),
+      ["Haaland hat-trick sinks Burnley", "Date the feed got wrong"]
+    );
+    assert.equal(parsed.entries[0].published, "2025-10-18T15:00:00+01:00");
+  });
+
+  test("reads Atom entries, alternate links and category terms", () => {
+    const parsed = parseFeed(fixture("atom.xml"));
+    assert.equal(parsed.format, "atom");
+    assert.equal(parsed.title, "Galatasaray Official");
+    assert.deepEqual(parsed.entries[0], {
+      title: "Icardi returns to training & squad",
+      link: "https://www.galatasaray.org/en/news/icardi",
+      published: "2025-10-18T10:00:00Z",
+      summary: "The striker is back ahead of the Süper Lig weekend.",
+      categories: ["Süper Lig"],
+    });
+    assert.equal(parsed.entries[1].published, "2025-10-16T08:00:00Z");
+    assert.equal(parsed.entries[2].link, "");
+  });
+
+  test("rejects documents that aren't feeds", () => {
+    assert.throws(() => parseFeed("<html><body/></html>"), FeedParseError);
+  });
+});
+
+describe("normalizeEntry", () => {
+  const bbc: FeedConfig = {
+    id: "bbc-football",
+    url: "https://www.bbc.co.uk/sport/football/rss.xml",
+  };
+
+  test("turns RSS items into verified news items", () => {
+    const [derby] = ingest("rss2.xml", bbc);
+    assertStableId(derby);
+    assert.deepEqual(derby, {
+      id: derby.id,
+      title: "Arsenal & Chelsea draw in London derby",
+      date: "2025-10-18",
+      url: "https://www.bbc.co.uk/sport/football/articles/derby",
+      source: "BBC Sport - Football",
+      entities: ["Premier League", "Arsenal", "Chelsea"],
+      confidence: 1,
+      urlStatus: "allow-listed",
+      verified: true,
+      feedId: "bbc-football",
+      excerpt: "Both sides dropped points.",
+      fetchedAt: FETCHED_AT,
+    });
+  });
+
+  test("drops entries without a title or link", () => {
+    const items = ingest("rss2.xml", bbc);
+    assert.equal(items.length, 5);
+    assert.equal(items[3], null);
+    assert.equal(items[4], null);
+    assert.equal(ingest("atom.xml", { id: "gs", url: bbc.url })[2], null);
+  });
+
+  test("resolves relative links and dates missing entries by the fetch", () => {
+    const undated = ingest("rss2.xml", bbc)[2];
+    assertStableId(undated);
+    assert.equal(undated.url, "https://www.bbc.co.uk/sport/football/gossip");
+    assert.equal(undated.date, "2025-10-19");
+
+    const badDate = ingest("rdf.xml", bbc)[1];
+    assert.equal(badDate?.date, "2025-10-19");
+  });
+
+  test("uses the configured source and entities", () => {
+    const [icardi, relative] = ingest("atom.xml", {
+      id: "galatasaray",
+      url: "https://www.galatasaray.org/feed.atom",
+      source: "Galatasaray",
+      entities: ["galatasaray"],
+    });
+    assertStableId(icardi);
+    assert.equal(icardi.source, "Galatasaray");
+    assert.deepEqual(icardi.entities, ["Galatasaray", "Süper Lig"]);
+    assert.equal(icardi.urlStatus, "unknown-domain");
+    assert.equal(icardi.verified, false);
+    assert.equal(relative?.url, "https://www.galatasaray.org/en/news/relative");
+  });
+
+  test("gives the same entries the same ids on every fetch", () => {
+    const first = ingest("rdf.xml", bbc);
+    const later = ingest("rdf.xml", bbc, "2025-10-19T18:30:00.000Z");
+    assertStableId(first[0]);
+    assert.equal(later[0]?.id, first[0].id);
+    assert.notEqual(first[0].id, first[1]?.id);
+  });
+});
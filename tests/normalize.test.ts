@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { newsItemId } from "@/app/lib/news/ids";
+import { normalizeText } from "@/app/lib/news/normalize";
+
+describe("normalizeText", () => {
+  test("folds case, accents and punctuation", () => {
+    assert.equal(normalizeText("  Fenerbahçe win!"), "fenerbahce win");
+    assert.equal(normalizeText("FENERBAHCE   win"), "fenerbahce win");
+  });
+
+  test("keeps letters outside Latin", () => {
+    assert.equal(normalizeText("Yıldız"), "yildiz");
+    assert.equal(normalizeText("Зенит победил!"), "зенит победил");
+    assert.equal(normalizeText("Ολυμπιακός"), "ολυμπιακος");
+  });
+});
+
+describe("newsItemId", () => {
+  test("gives titles in other scripts their own ids", () => {
+    const base = { url: "https://example.com/", date: "2025-10-18" };
+    assert.notEqual(
+      newsItemId({ ...base, title: "Зенит победил" }),
+      newsItemId({ ...base, title: "Спартак проиграл" })
+    );
+  });
+});
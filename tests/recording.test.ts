@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, test } from "node:test";
+import {
+  createRecordingProvider,
+  createReplayProvider,
+} from "@/app/lib/llm/recording";
+import {
+  CompletionRequest,
+  LlmProvider,
+  LlmProviderError,
+} from "@/app/lib/llm/types";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-fixtures-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function request(content: string, model = "grok-2"): CompletionRequest {
+  return {
+    model,
+    messages: [{ role: "user", content }],
+    purpose: "news",
+  };
+}
+
+// Answers every request with the same text and counts its calls
+function fakeProvider(content: string): LlmProvider & { calls: number } {
+  const provider = {
+    name: "xai" as const,
+    label: "Fake provider",
+    calls: 0,
+    async complete(req: CompletionRequest) {
+      provider.calls++;
+      return { content, model: req.model };
+    },
+    async *stream(): AsyncGenerator<string> {
+      provider.calls++;
+      yield content.slice(0, 5);
+      yield content.slice(5);
+    },
+  };
+  return provider;
+}
+
+async function collect(tokens: AsyncIterable<string>): Promise<string> {
+  let text = "";
+  for await (const token of tokens) text += token;
+  return text;
+}
+
+describe("record and replay", () => {
+  test("record saves the response and replay serves it for any model", async () => {
+    const provider = fakeProvider('[{"title":"Derby"}]');
+    const recorded = await createRecordingProvider(provider, dir).complete(
+      request("Fenerbahce news")
+    );
+    assert.equal(provider.calls, 1);
+    assert.equal(fs.readdirSync(path.join(dir, "news")).length, 1);
+
+    const replay = createReplayProvider("Fake provider", dir);
+    assert.deepEqual(
+      await replay.complete(request("Fenerbahce news", "gpt-4o")),
+      recorded
+    );
+  });
+
+  test("a recorded stream replays as a completion and as a stream", async () => {
+    const content = "Salah signs a new contract.";
+    const provider = fakeProvider(content);
+    assert.equal(
+      await collect(
+        createRecordingProvider(provider, dir).stream(request("Salah"))
+      ),
+      content
+    );
+
+    const replay = createReplayProvider("Fake provider", dir);
+    assert.equal((await replay.complete(request("Salah"))).content, content);
+    assert.equal(await collect(replay.stream(request("Salah"))), content);
+  });
+
+  test("replay fails with a 404 when nothing was recorded", async () => {
+    const replay = createReplayProvider("Fake provider", dir);
+    await assert.rejects(
+      replay.complete(request("Never recorded")),
+      (error) => error instanceof LlmProviderError && error.status === 404
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createResilientProvider } from "@/app/lib/llm/resilience";
+import {
+  CompletionRequest,
+  CompletionResult,
+  LlmProvider,
+  LlmProviderError,
+} from "@/app/lib/llm/types";
+
+const OPTIONS = {
+  maxRetries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 50,
+  breakerThreshold: 100,
+  breakerCooldownMs: 1000,
+};
+
+const REQUEST: CompletionRequest = {
+  model: "test-model",
+  messages: [{ role: "user", content: "Latest news" }],
+  purpose: "news",
+};
+
+// Fails with the given errors in turn, then succeeds
+function failingProvider(errors: Error[]): LlmProvider & { calls: number } {
+  const provider = {
+    name: "mock" as const,
+    label: "Test provider",
+    calls: 0,
+    async complete(): Promise<CompletionResult> {
+      const error = errors[provider.calls++];
+      if (error) throw error;
+      return { content: "[]", model: "test-model" };
+    },
+    async *stream(): AsyncGenerator<string> {
+      const error = errors[provider.calls++];
+      if (error) throw error;
+      yield "done";
+    },
+  };
+  return provider;
+}
+
+function rateLimited(retryAfterMs: number): LlmProviderError {
+  return new LlmProviderError("Rate limited", 429, retryAfterMs);
+}
+
+describe("createResilientProvider", () => {
+  test("waits for Retry-After before retrying", async () => {
+    const provider = failingProvider([rateLimited(30)]);
+    const started = Date.now();
+    const result = await createResilientProvider(provider, OPTIONS).complete(
+      REQUEST
+    );
+    assert.equal(result.content, "[]");
+    assert.equal(provider.calls, 2);
+    assert.ok(Date.now() - started >= 25);
+  });
+
+  test("returns the error when Retry-After is longer than the delay cap", async () => {
+    const error = rateLimited(60000);
+    const provider = failingProvider([error]);
+    const started = Date.now();
+    await assert.rejects(
+      createResilientProvider(provider, OPTIONS).complete(REQUEST),
+      (thrown) => thrown === error
+    );
+    assert.equal(provider.calls, 1);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  test("does not retry a stream when Retry-After is longer than the cap", async () => {
+    const error = rateLimited(60000);
+    const provider = failingProvider([error]);
+    const resilient = createResilientProvider(provider, OPTIONS);
+    const tokens: string[] = [];
+    await assert.rejects(
+      async () => {
+        for await (const token of resilient.stream(REQUEST)) tokens.push(token);
+      },
+      (thrown) => thrown === error
+    );
+    assert.equal(provider.calls, 1);
+    assert.deepEqual(tokens, []);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, test } from "node:test";
+import { getStorage } from "@/app/lib/storage";
+import { listArticles, saveNewsItems } from "@/app/lib/news/store";
+import { NewsItem } from "@/app/lib/news/types";
+
+process.env.STORAGE_BACKEND = "memory";
+
+function item(id: string, date: string): NewsItem {
+  return {
+    id,
+    title: `Headline ${id}`,
+    date,
+    url: `https://www.bbc.co.uk/sport/football/articles/${id}`,
+    source: "BBC Sport",
+    entities: [],
+    confidence: 0.9,
+    urlStatus: "allow-listed",
+    verified: true,
+  };
+}
+
+describe("saveNewsItems", () => {
+  beforeEach(async () => {
+    delete process.env.NEWS_STORE_MAX_ITEMS;
+    const storage = await getStorage();
+    await storage.writeRaw("articles", {});
+  });
+
+  test("keeps the newest articles up to NEWS_STORE_MAX_ITEMS", async () => {
+    process.env.NEWS_STORE_MAX_ITEMS = "2";
+    await saveNewsItems([
+      item("a", "2025-10-16"),
+      item("b", "2025-10-18"),
+      item("c", "2025-10-17"),
+    ]);
+    const ids = (await listArticles()).map(({ id }) => id).sort();
+    assert.deepEqual(ids, ["b", "c"]);
+  });
+
+  test("drops articles no query has returned for too long", async () => {
+    const seen = "2020-01-01T00:00:00.000Z";
+    const storage = await getStorage();
+    await storage.writeRaw("articles", {
+      old: {
+        ...item("old", "2020-01-01"),
+        firstSeenAt: seen,
+        lastSeenAt: seen,
+      },
+    });
+    await saveNewsItems([item("new", "2025-10-18")]);
+    assert.deepEqual((await listArticles()).map(({ id }) => id), ["new"]);
+  });
+});
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, test } from "node:test";
+import { getStorage } from "@/app/lib/storage";
+import {
+  migrateSubscriptions,
+  SchemaVersionError,
+  SUBSCRIPTIONS_VERSION,
+} from "@/app/lib/subscriptions/migrations";
+import { upgradeStoredSubscriptions } from "@/app/lib/subscriptions/repository";
+
+process.env.STORAGE_BACKEND = "memory";
+
+describe("migrateSubscriptions", () => {
+  test("v1 to v2 fills in missing tournaments, custom and null lists", () => {
+    const migrated = migrateSubscriptions({
+      leagues: ["Serie A"],
+      teams: null,
+      players: ["Mauro Icardi"],
+    });
+    assert.ok(migrated);
+    assert.equal(migrated.from, 1);
+    assert.deepEqual(migrated.document, {
+      version: SUBSCRIPTIONS_VERSION,
+      leagues: ["Serie A"],
+      teams: [],
+      players: ["Mauro Icardi"],
+      tournaments: [],
+      custom: {},
+      settings: {},
+    });
+    assert.equal(migrated.applied.length, SUBSCRIPTIONS_VERSION - 1);
+    assert.match(migrated.applied[0], /^v2:/);
+  });
+
+  test("v1 to v2 keeps existing tournaments and custom categories", () => {
+    const migrated = migrateSubscriptions({
+      leagues: [],
+      teams: [],
+      players: [],
+      tournaments: ["Champions League"],
+      custom: { coaches: ["Jose Mourinho"] },
+    });
+    assert.deepEqual(migrated?.document.tournaments, ["Champions League"]);
+    assert.deepEqual(migrated?.document.custom, { coaches: ["Jose Mourinho"] });
+  });
+
+  test("v2 to v3 adds settings", () => {
+    const migrated = migrateSubscriptions({
+      version: 2,
+      leagues: [],
+      teams: ["Galatasaray"],
+      players: [],
+      tournaments: [],
+      custom: {},
+    });
+    assert.ok(migrated);
+    assert.equal(migrated.from, 2);
+    assert.deepEqual(migrated.applied, ["v3: Add per-subscription settings"]);
+    assert.deepEqual(migrated.document.settings, {});
+    assert.equal(migrated.document.version, 3);
+    assert.deepEqual(migrated.document.teams, ["Galatasaray"]);
+  });
+
+  test("leaves a current document unchanged", () => {
+    const document = {
+      version: SUBSCRIPTIONS_VERSION,
+      leagues: [],
+      teams: ["Galatasaray"],
+      players: [],
+      tournaments: [],
+      custom: {},
+      settings: { "team/galatasaray": { priority: 5, include: [], exclude: [] } },
+    };
+    const migrated = migrateSubscriptions(document);
+    assert.ok(migrated);
+    assert.equal(migrated.from, SUBSCRIPTIONS_VERSION);
+    assert.deepEqual(migrated.applied, []);
+    assert.equal(migrated.document, document);
+  });
+
+  test("throws SchemaVersionError for a newer version", () => {
+    assert.throws(
+      () => migrateSubscriptions({ version: SUBSCRIPTIONS_VERSION + 1 }),
+      (error: unknown) =>
+        error instanceof SchemaVersionError &&
+        error.version === SUBSCRIPTIONS_VERSION + 1
+    );
+  });
+
+  test("throws SchemaVersionError for an invalid version", () => {
+    assert.throws(
+      () => migrateSubscriptions({ version: "2" }),
+      SchemaVersionError
+    );
+  });
+
+  test("returns null for anything that isn't a document", () => {
+    assert.equal(migrateSubscriptions(null), null);
+    assert.equal(migrateSubscriptions([]), null);
+    assert.equal(migrateSubscriptions("subscriptions"), null);
+  });
+});
+
+describe("upgradeStoredSubscriptions", () => {
+  const v1 = { leagues: ["Serie A"], teams: [], players: [] };
+  const current = {
+    version: SUBSCRIPTIONS_VERSION,
+    leagues: [],
+    teams: [],
+    players: [],
+    tournaments: [],
+    custom: {},
+    settings: {},
+  };
+
+  beforeEach(async () => {
+    const storage = await getStorage();
+    await storage.writeRaw("subscriptions/old", v1);
+    await storage.writeRaw("subscriptions/current", current);
+  });
+
+  test("dry run reports upgrades without writing anything", async () => {
+    const upgrades = await upgradeStoredSubscriptions(true);
+    assert.deepEqual(
+      upgrades.map(({ name, from }) => ({ name, from })),
+      [{ name: "subscriptions/old", from: 1 }]
+    );
+    const storage = await getStorage();
+    assert.deepEqual(await storage.readRaw("subscriptions/old"), v1);
+    assert.deepEqual(await storage.readRaw("subscriptions/current"), current);
+  });
+
+  test("writes upgraded documents at the current version", async () => {
+    const reported: string[] = [];
+    await upgradeStoredSubscriptions(false, ({ name }) => reported.push(name));
+    assert.deepEqual(reported, ["subscriptions/old"]);
+
+    const storage = await getStorage();
+    const stored = (await storage.readRaw("subscriptions/old")) as Record<
+      string,
+      unknown
+    >;
+    assert.equal(stored.version, SUBSCRIPTIONS_VERSION);
+    assert.deepEqual(stored.leagues, ["Serie A"]);
+    assert.deepEqual(stored.settings, {});
+    assert.deepEqual(await upgradeStoredSubscriptions(true), []);
+  });
+});
@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createUser } from "@/app/lib/auth/users";
+import { getStorage } from "@/app/lib/storage";
+import {
+  addSubscription,
+  getSubscriptions,
+  importSubscriptions,
+  listFollowedTerms,
+  removeSubscription,
+  undoLastChange,
+  updateSubscriptionSettings,
+} from "@/app/lib/subscriptions/repository";
+import {
+  settingsKey,
+  SubscriptionSettings,
+} from "@/app/lib/subscriptions/settings";
+import { exportJson, parseImport } from "@/app/lib/subscriptions/transfer";
+
+process.env.STORAGE_BACKEND = "memory";
+
+const SETTINGS: SubscriptionSettings = {
+  priority: 5,
+  mutedUntil: "2030-01-01T00:00:00.000Z",
+  include: ["derby"],
+  exclude: ["rumour"],
+};
+
+describe("undoLastChange", () => {
+  test("brings back the settings of an undone unsubscribe", async () => {
+    const userId = "undo-settings";
+    await addSubscription(userId, "Galatasaray", "team");
+    await updateSubscriptionSettings(userId, "Galatasaray", "team", SETTINGS);
+    await removeSubscription(userId, "Galatasaray", "team");
+    assert.deepEqual((await getSubscriptions(userId)).settings, {});
+
+    const { subscriptions, changes } = await undoLastChange(userId);
+    assert.deepEqual(subscriptions.teams, ["Galatasaray"]);
+    assert.deepEqual(subscriptions.settings, {
+      [settingsKey("Galatasaray", "team")]: SETTINGS,
+    });
+    assert.deepEqual(
+      changes.map(({ type, term }) => ({ type, term })),
+      [{ type: "subscribe", term: "Galatasaray" }]
+    );
+  });
+
+  test("leaves a follow without settings at the defaults", async () => {
+    const userId = "undo-defaults";
+    await addSubscription(userId, "Arsenal", "team");
+    await removeSubscription(userId, "Arsenal", "team");
+
+    const { subscriptions } = await undoLastChange(userId);
+    assert.deepEqual(subscriptions.teams, ["Arsenal"]);
+    assert.deepEqual(subscriptions.settings, {});
+  });
+
+  test("concurrent undos each reverse a different change", async () => {
+    const userId = "undo-concurrent";
+    await addSubscription(userId, "Arsenal", "team");
+    await addSubscription(userId, "Chelsea", "team");
+
+    const undone = await Promise.all([
+      undoLastChange(userId),
+      undoLastChange(userId),
+    ]);
+    assert.deepEqual(
+      undone.map(({ changes }) => changes.map(({ term }) => term)),
+      [["Chelsea"], ["Arsenal"]]
+    );
+    assert.deepEqual((await getSubscriptions(userId)).teams, []);
+  });
+});
+
+describe("importSubscriptions", () => {
+  test("keeps settings through a JSON export and import", async () => {
+    const from = "export-settings";
+    await addSubscription(from, "Galatasaray", "team");
+    await addSubscription(from, "Jose Mourinho", "coaches");
+    await updateSubscriptionSettings(from, "Galatasaray", "team", SETTINGS);
+    const exported = exportJson(await getSubscriptions(from));
+
+    const to = "import-settings";
+    await addSubscription(to, "Arsenal", "team");
+    await updateSubscriptionSettings(to, "Arsenal", "team", SETTINGS);
+    const report = await importSubscriptions(
+      to,
+      parseImport(exported),
+      "replace"
+    );
+    assert.equal(report.added.length, 2);
+    assert.deepEqual(report.subscriptions.teams, ["Galatasaray"]);
+    assert.deepEqual(report.subscriptions.settings, {
+      [settingsKey("Galatasaray", "team")]: SETTINGS,
+    });
+  });
+
+  test("merge keeps the settings of follows that have their own", async () => {
+    const userId = "merge-settings";
+    const own: SubscriptionSettings = {
+      priority: 1,
+      include: [],
+      exclude: ["transfer"],
+    };
+    await addSubscription(userId, "Galatasaray", "team");
+    await updateSubscriptionSettings(userId, "Galatasaray", "team", own);
+
+    const body = JSON.stringify({
+      teams: ["galatasaray", "Arsenal"],
+      settings: {
+        [settingsKey("Galatasaray", "team")]: SETTINGS,
+        [settingsKey("Arsenal", "team")]: SETTINGS,
+      },
+    });
+    const { subscriptions } = await importSubscriptions(
+      userId,
+      parseImport(body),
+      "merge"
+    );
+    assert.deepEqual(subscriptions.settings, {
+      [settingsKey("Galatasaray", "team")]: own,
+      [settingsKey("Arsenal", "team")]: SETTINGS,
+    });
+  });
+
+  test("drops settings that don't validate but imports the follow", () => {
+    const entries = parseImport(
+      JSON.stringify({
+        teams: ["Arsenal"],
+        settings: { [settingsKey("Arsenal", "team")]: { priority: 99 } },
+      })
+    );
+    assert.deepEqual(entries, [{ term: "Arsenal", category: "team" }]);
+  });
+});
+
+describe("listFollowedTerms", () => {
+  test("skips legacy subscriptions once claimed", async () => {
+    const storage = await getStorage();
+    await storage.writeRaw("subscriptions", {
+      leagues: [],
+      teams: ["Trabzonspor"],
+      players: [],
+    });
+    await addSubscription("follower", "Beşiktaş", "team");
+    assert.ok((await listFollowedTerms()).includes("Trabzonspor"));
+
+    await createUser("first-account", "correct horse battery");
+    const terms = await listFollowedTerms();
+    assert.ok(!terms.includes("Trabzonspor"));
+    assert.ok(terms.includes("Beşiktaş"));
+  });
+});
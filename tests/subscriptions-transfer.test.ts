@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  ImportFormatError,
+  MAX_IMPORT_BYTES,
+  parseImport,
+  readImportBody,
+} from "@/app/lib/subscriptions/transfer";
+
+function opml(outlines: string): string {
+  return `<?xml version="1.0"?>
+<opml version="2.0">
+  <body>
+    <outline text="Teams" category="team">
+${outlines}
+    </outline>
+  </body>
+</opml>`;
+}
+
+describe("parseImport (OPML)", () => {
+  test("decodes character references above U+FFFF", () => {
+    const entries = parseImport(
+      opml(`      <outline text="Galatasaray &#x1F981; &#129409;"/>`)
+    );
+    assert.deepEqual(entries, [
+      { term: "Galatasaray 🦁 🦁", category: "team" },
+    ]);
+  });
+
+  test("leaves references outside Unicode as written", () => {
+    const entries = parseImport(
+      opml(`      <outline text="Arsenal &#x110000; &#0;"/>`)
+    );
+    assert.deepEqual(entries, [
+      { term: "Arsenal &#x110000; &#0;", category: "team" },
+    ]);
+  });
+});
+
+describe("readImportBody", () => {
+  test("refuses a body whose Content-Length is over the limit", async () => {
+    const request = new Request("http://localhost/api/subscriptions/import", {
+      method: "POST",
+      body: "{}",
+      headers: { "Content-Length": String(MAX_IMPORT_BYTES + 1) },
+    });
+    await assert.rejects(readImportBody(request), ImportFormatError);
+  });
+
+  test("counts bytes, not characters, while reading", async () => {
+    // Two bytes per character: under the limit in characters, over in bytes
+    const body = "ş".repeat(MAX_IMPORT_BYTES / 2 + 1);
+    const request = new Request("http://localhost/api/subscriptions/import", {
+      method: "POST",
+      body: new Blob([body]).stream(),
+      duplex: "half",
+    } as RequestInit);
+    await assert.rejects(readImportBody(request), ImportFormatError);
+  });
+
+  test("returns a body within the limit", async () => {
+    const request = new Request("http://localhost/api/subscriptions/import", {
+      method: "POST",
+      body: '{"teams":["Beşiktaş"]}',
+    });
+    assert.equal(await readImportBody(request), '{"teams":["Beşiktaş"]}');
+  });
+});
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, test } from "node:test";
+import { parseNewsItems, PLACEHOLDER_URL } from "@/app/lib/news/schema";
+import {
+  classifyUrl,
+  getAllowedDomains,
+  verifyUrl,
+} from "@/app/lib/news/verify";
+
+describe("verifyUrl", () => {
+  test("verifies links to allow-listed publishers and their subdomains", () => {
+    assert.deepEqual(
+      verifyUrl("https://www.bbc.co.uk/sport/football/articles/c1"),
+      { urlStatus: "allow-listed", verified: true }
+    );
+    assert.equal(
+      classifyUrl("https://amp.theguardian.com/football/2025/oct/18/derby"),
+      "allow-listed"
+    );
+  });
+
+  test("leaves other well-formed links unverified", () => {
+    assert.deepEqual(verifyUrl("https://football-rumours.net/story"), {
+      urlStatus: "unknown-domain",
+      verified: false,
+    });
+    // A lookalike host isn't a subdomain of the publisher
+    assert.equal(classifyUrl("https://notbbc.co.uk/sport"), "unknown-domain");
+  });
+
+  test("flags placeholder and example links", () => {
+    [
+      "",
+      PLACEHOLDER_URL,
+      "https://news.example.org/story",
+      "https://club.test/news",
+      "https://www.bbc.co.uk/placeholder-article",
+    ].forEach((url) => assert.equal(classifyUrl(url), "placeholder", url));
+  });
+
+  test("flags malformed links", () => {
+    [
+      "not a url",
+      "www.bbc.co.uk/sport",
+      "ftp://bbc.co.uk/sport",
+      "javascript:alert(1)",
+      "http://localhost/news",
+      "http://192.168.0.1/news",
+    ].forEach((url) => {
+      assert.equal(classifyUrl(url), "malformed", url);
+      assert.equal(verifyUrl(url).verified, false, url);
+    });
+  });
+
+  test("checks against the allow-list it is given", () => {
+    assert.equal(
+      classifyUrl("https://www.fanatik.com.tr/haber", ["ntvspor.net"]),
+      "unknown-domain"
+    );
+    assert.equal(
+      classifyUrl("https://www.ntvspor.net/haber", ["ntvspor.net"]),
+      "allow-listed"
+    );
+  });
+});
+
+describe("getAllowedDomains", () => {
+  afterEach(() => {
+    delete process.env.NEWS_DOMAIN_ALLOWLIST;
+  });
+
+  test("reads NEWS_DOMAIN_ALLOWLIST in place of the built-in list", () => {
+    process.env.NEWS_DOMAIN_ALLOWLIST = " WWW.NTVSpor.net, ,sporx.com";
+    assert.deepEqual(getAllowedDomains(), ["ntvspor.net", "sporx.com"]);
+    assert.equal(classifyUrl("https://www.bbc.co.uk/sport"), "unknown-domain");
+  });
+});
+
+describe("parseNewsItems", () => {
+  test("leaves trust flags to the server and falls back to the placeholder", () => {
+    const [item] = parseNewsItems(
+      JSON.stringify({
+        items: [
+          {
+            title: "Galatasaray win the derby",
+            date: "2025-10-18",
+            url: "not a url",
+            source: "Fanatik",
+            entities: ["Galatasaray"],
+            confidence: 0.8,
+            urlStatus: "allow-listed",
+            verified: true,
+          },
+        ],
+      })
+    );
+    assert.equal(item.url, PLACEHOLDER_URL);
+    assert.ok(!("verified" in item) && !("urlStatus" in item));
+    assert.deepEqual(verifyUrl(item.url), {
+      urlStatus: "placeholder",
+      verified: false,
+    });
+  });
+});